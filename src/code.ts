@@ -1,30 +1,221 @@
+import {
+  AUTO_RERENDER_STORAGE_KEY,
+  FAVOURITES_STORAGE_KEY,
+  LAST_RECIPE_STORAGE_KEY,
+  MAX_FAVOURITES,
+  RECIPE_PLUGIN_DATA_KEY,
+  RECIPE_VERSION,
+  TILED_EXPORT_STORAGE_KEY,
+  parseRecipe,
+  serializeRecipe
+} from './shared/recipe';
+import type { DisplaceRecipe, FavouriteRecipe, RecipePayload } from './shared/recipe';
+import { isFavourite, isPresetIndexEntry, isRecipePayload, isRecord, parseUiMessage } from './shared/protocol';
+import type { HeadlessJob, PluginToUiMessage, ResultTile, UiMessageOf, UiMessageType, UiToPluginMessage } from './shared/protocol';
+import { deleteCustomPreset, loadCustomPresets, measureCustomPresetGrowth, measureCustomPresets, saveCustomPreset } from './shared/presetStorage';
+import { SizedStorage } from './shared/storageQuota';
+import { PRESET_INDEX_STORAGE_KEY, SCALE_RANGE, STRENGTH_RANGE, checkRangeInput } from './shared/quickApply';
+import type { PresetIndexEntry } from './shared/quickApply';
+import type {
+  ApplyMode,
+  CopyLayout,
+  CustomPreset,
+  FilePreset,
+  FillLayerOptions,
+  ImageCrop,
+  ImageFillOption,
+  ImageUse,
+  ImageUseScope,
+  NestedImageOption,
+  NestedTarget,
+  RecipeNodeInfo
+} from './ui/types';
+import { APP_CONFIG } from './ui/config/constants';
+
+// All clientStorage access goes through the size index, which enforces the storage quota
+const pluginStorage = new SizedStorage(figma.clientStorage, APP_CONFIG.STORAGE_LIMIT);
+
+// Shared plugin data on figma.root holding the document's team presets. Figma caps a
+// single entry at 100 kB, so oversized maps are rejected before writing
+const FILE_PRESETS_NAMESPACE = 'displace';
+const FILE_PRESETS_LIST_KEY = 'file_presets_list';
+const FILE_PRESET_KEY_PREFIX = 'file_preset_';
+const MAX_FILE_PRESET_SIZE = 100 * 1024;
+
+// Scene nodes that carry a fills array (image fills live there)
+type FillableNode = Extract<SceneNode, MinimalFillsMixin>;
+
+// Rasterized layers are exported at 2x for crisp text, capped at Figma's image size limit
+// (or at the tiled export limit when full-resolution export is on)
+const RASTER_EXPORT_SCALE = 2;
+const RASTER_MAX_SIDE = APP_CONFIG.QUALITY.FIGMA_ABSOLUTE_LIMIT;
+
+// Image-filled descendants listed for a selected container, and their thumbnail height
+const MAX_NESTED_IMAGES = 50;
+const NESTED_THUMBNAIL_SIZE = 64;
+
+// Thumbnail height of the layers listed in the inspector
+const INSPECTOR_THUMBNAIL_SIZE = 40;
+
+// Delay before stale recipes are reported, so a burst of edits is reported once
+const STALE_REPORT_DELAY = 500;
+
+// Top-level layers scanned between two progress reports of an image use scan
+const IMAGE_SCAN_PROGRESS_STEP = 20;
+
+// Upper bound for the "grid" copy layout
+const MAX_COPY_COLUMNS = 20;
+
+// Placement state of the copies made from one origin node during the session
+interface CopyChain {
+  layoutKey: string;
+  count: number;
+  right: number;
+  bottom: number;
+  parentId: string | null;
+  anchorX: number;
+  anchorY: number;
+  frame: FrameNode | null;
+}
+
+// Blend modes offered for "add as fill layer" (same set as Figma's fill panel)
+const FILL_BLEND_MODES: BlendMode[] = [
+  'NORMAL', 'DARKEN', 'MULTIPLY', 'LINEAR_BURN', 'COLOR_BURN', 'LIGHTEN', 'SCREEN', 'LINEAR_DODGE',
+  'COLOR_DODGE', 'OVERLAY', 'SOFT_LIGHT', 'HARD_LIGHT', 'DIFFERENCE', 'EXCLUSION', 'HUE', 'SATURATION',
+  'COLOR', 'LUMINOSITY'
+];
+
+// Menu commands from manifest.json; the "Edit Displace effect" relaunch button runs "edit",
+// which opens the UI like "open" (the selected node's recipe is restored on selection)
+type PluginCommand = 'open' | 'edit' | 'reapply-last' | 'apply-favourite' | 'revert' | 'quick-apply';
+
+// Team presets travel with the document: shared plugin data on the root node, one entry
+// per preset plus an id list (same layout as custom presets in clientStorage)
+function loadFilePresets(): FilePreset[] {
+  const presets: FilePreset[] = [];
+  for (const id of readFilePresetIds()) {
+    const presetData = figma.root.getSharedPluginData(FILE_PRESETS_NAMESPACE, `${FILE_PRESET_KEY_PREFIX}${id}`);
+    if (!presetData) continue;
+    try {
+      presets.push(JSON.parse(presetData));
+    } catch (error) {
+      console.warn(`⚠️ Skipping unreadable file preset ${id}:`, error);
+    }
+  }
+  return presets.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function readFilePresetIds(): string[] {
+  try {
+    const ids = JSON.parse(figma.root.getSharedPluginData(FILE_PRESETS_NAMESPACE, FILE_PRESETS_LIST_KEY) || '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Presets offered by the quick action: file and custom presets first, then the cached manifest
+async function loadQuickPresets(): Promise<(PresetIndexEntry | CustomPreset | FilePreset)[]> {
+  const cached = await pluginStorage.getAsync(PRESET_INDEX_STORAGE_KEY);
+  const manifestPresets = Array.isArray(cached) ? cached.filter(isPresetIndexEntry) : [];
+  return [...loadFilePresets(), ...await loadCustomPresets(pluginStorage), ...manifestPresets];
+}
+
+// Quick action suggestions: Displace › Apply preset… › preset › strength › scale
+async function onParameterInput({ key, query, parameters, result }: ParameterInputEvent) {
+  if (key === 'preset') {
+    result.setLoadingMessage('Loading presets…');
+    const presets = await loadQuickPresets();
+    if (presets.length === 0) {
+      result.setError('Open Displace once to load the preset library');
+      return;
+    }
+    const search = query.trim().toLowerCase();
+    result.setSuggestions(
+      presets
+        .filter((preset) => preset.name.toLowerCase().includes(search))
+        .map((preset) => ({ name: preset.name, data: preset.id }))
+    );
+    return;
+  }
+
+  const range = key === 'strength' ? STRENGTH_RANGE : SCALE_RANGE;
+  if (query.trim() === '') {
+    // Suggest the preset's own default as a starting point
+    const preset = (await loadQuickPresets()).find((p) => p.id === parameters.preset);
+    const fallback = key === 'strength' ? APP_CONFIG.DEFAULT_PRESET_STRENGTH : APP_CONFIG.DEFAULT_PRESET_SCALE;
+    const value = (key === 'strength' ? preset?.defaultStrength : preset?.defaultScale) ?? fallback;
+    result.setSuggestions([String(value)]);
+    return;
+  }
+  const error = checkRangeInput(query, range);
+  if (error) {
+    result.setError(error);
+  } else {
+    result.setSuggestions([query.trim()]);
+  }
+}
+
 // Minimal worker: open the UI iframe
-async function main() {
-  figma.showUI(__html__, { width: 720, height: 400 });
+async function main(command: PluginCommand, parameters: ParameterValues | undefined) {
+
+  // Session-scoped chain placement state for "apply as copy"
+  const chainState: Record<string, CopyChain> = {};
+  // Image fill picked in the UI per node (for nodes with several image fills)
+  const fillSelection: Record<string, number> = {};
+  // Nested image picked in the UI per selected container (frame, group, component...)
+  const nestedSelection: Record<string, Exclude<NestedTarget, null>> = {};
+  // Recipe layers whose source image was swapped during the session
+  const staleNodeIds = new Set<string>();
+  // Last non-image layer rasterized for the UI; its recipe reuses these bytes as the original
+  let lastRaster: { nodeId: string; imageBytes: Uint8Array } | null = null;
+  let staleReportTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Revert needs no rendering: run it without any UI
+  if (command === 'revert') {
+    const { reverted, withoutRecipe } = await revertSelection();
+    figma.closePlugin(describeRevert(reverted, withoutRecipe));
+    return;
+  }
+
+  // Re-render commands run the regular pipeline inside a hidden UI
+  const isHeadlessCommand = command === 'reapply-last' || command === 'quick-apply';
+  const headlessJob = command === 'reapply-last'
+    ? await prepareReapplyJob()
+    : command === 'quick-apply' ? await prepareQuickApplyJob(parameters ?? {}) : null;
+  if (isHeadlessCommand && !headlessJob) {
+    return;
+  }
+  figma.showUI(__html__, { width: 720, height: 400, visible: !headlessJob });
+
+  // All backend → UI traffic goes through the shared protocol types
+  function postToUi(message: PluginToUiMessage) {
+    figma.ui.postMessage(message);
+  }
 
   // Загружаем кастомные пресеты в фоне, не блокируя запуск UI
   loadAndSendCustomPresets();
 
+  loadAndSendFilePresets();
+
+  function loadAndSendFilePresets() {
+    try {
+      postToUi({ type: 'file-presets-loaded', presets: loadFilePresets() });
+    } catch (error) {
+      console.error('Error loading file presets:', error);
+    }
+  }
+
   // Общая функция для загрузки кастомных пресетов
   async function loadAndSendCustomPresets() {
     try {
-      const presetIds = await figma.clientStorage.getAsync('custom_presets_list') || [];
-      const presets = [];
-
-      for (const id of presetIds) {
-        const presetData = await figma.clientStorage.getAsync(`custom_preset_${id}`);
-        if (presetData) {
-          presets.push(presetData);
-        }
-      }
-
-      figma.ui.postMessage({
+      postToUi({
         type: 'custom-presets-loaded',
-        presets: presets.sort((a, b) => b.createdAt - a.createdAt)
+        presets: await loadCustomPresets(pluginStorage)
       });
     } catch (error) {
       console.error('Error loading custom presets:', error);
-      figma.ui.postMessage({
+      postToUi({
         type: 'custom-presets-load-error',
         error: String(error)
       });
@@ -33,92 +224,1141 @@ async function main() {
 
   // Function to get the selected image and send it to the UI
   async function processSelectedImage() {
-    const node = getSelectedImageNode();
-    if (!node || node.fills === figma.mixed) {
+    const selection = figma.currentPage.selection;
+    let node: SceneNode | null;
+    let batchCount = 1;
+
+    if (selection.length > 1) {
+      // Multi-node selection: preview the first processable node, apply to all of them
+      const { targets } = collectBatchTargets();
+      if (targets.length === 0) {
+        postToUi({ type: 'unsupported-node', reason: 'not-rasterizable' });
+        return;
+      }
+      node = selection.find((n) => n.id === targets[0].id) || null;
+      batchCount = targets.length;
+    } else {
+      node = getSelectedNode();
+    }
+    if (!node) {
       return;
     }
 
-    // Find the first image fill
-    const imageFill = (node.fills as readonly Paint[]).find((fill: Paint): fill is ImagePaint => fill.type === 'IMAGE');
-
-    if (!imageFill || !imageFill.imageHash) {
-      figma.ui.postMessage({ type: 'unsupported-node', reason: 'no-image-fill' });
-      return;
+    // Containers list their image-filled descendants so one (or all) can be processed directly
+    const container = selection.length === 1 ? selection[0] : null;
+    const nestedImages = container ? findImageDescendants(container) : [];
+    if (container && nestedSelection[container.id] === 'all' && nestedImages.length > 0) {
+      batchCount = nestedImages.length;
     }
 
-    // Get the image data
+    // Get the image data (original pixels when the node carries a recipe)
     try {
-      const image = figma.getImageByHash(imageFill.imageHash);
-      if (!image) {
-        throw new Error('Image not found by hash');
+      const source = await loadSourceImage(node, await getRasterMaxSide());
+      if (!source) {
+        postToUi({ type: 'unsupported-node', reason: 'not-rasterizable' });
+        return;
       }
 
-      const imageBytes = await image.getBytesAsync();
-
       // Send the image data to the UI
-      figma.ui.postMessage({
+      postToUi({
         type: 'selection-updated',
-        imageBytes
+        imageBytes: source.imageBytes,
+        recipe: source.recipe,
+        sourceKind: source.kind,
+        fillIndex: source.fillIndex,
+        crop: source.crop,
+        imageFills: describeImageFills(node),
+        batchCount,
+        nestedImages: await describeNestedImages(nestedImages),
+        nestedTarget: container && nestedImages.length > 0 ? nestedSelection[container.id] ?? null : null
       });
     } catch (error) {
       console.error('Error getting image:', error);
       figma.notify('Error getting image: ' + String(error));
-      figma.ui.postMessage({ type: 'error', message: 'Error getting image' });
+      postToUi({ type: 'error', message: 'Error getting image' });
     }
   }
 
-  function getSelectedImageNode() {
+  // Indexes of the node's image fills (in `fills` order, bottom-most first)
+  function getImageFillIndexes(node: SceneNode): number[] {
+    if (!('fills' in node) || node.fills === figma.mixed) return [];
+    const indexes: number[] = [];
+    (node.fills as readonly Paint[]).forEach((fill, index) => {
+      if (fill.type === 'IMAGE' && fill.imageHash) indexes.push(index);
+    });
+    return indexes;
+  }
+
+  // The image fill to process: the requested one, then the one picked in the UI,
+  // then the one the recipe was applied to, else the first image fill
+  function findTargetFill(node: SceneNode, requestedIndex?: number): { fill: ImagePaint; index: number } | null {
+    const indexes = getImageFillIndexes(node);
+    if (indexes.length === 0) return null;
+    const candidates = [requestedIndex, fillSelection[node.id], readRecipe(node)?.fillIndex];
+    const index = candidates.find((i): i is number => typeof i === 'number' && indexes.includes(i)) ?? indexes[0];
+    return { fill: ((node as FillableNode).fills as readonly Paint[])[index] as ImagePaint, index };
+  }
+
+  function findImageFill(node: SceneNode): ImagePaint | null {
+    const target = findTargetFill(node);
+    return target ? target.fill : null;
+  }
+
+  // Labels for the fill picker, listed top-most first like Figma's fill panel
+  function describeImageFills(node: SceneNode): ImageFillOption[] {
+    const indexes = getImageFillIndexes(node);
+    const fills = indexes.length > 0 ? (node as FillableNode).fills as readonly Paint[] : [];
+    return indexes.slice().reverse().map((index, position) => {
+      const fill = fills[index] as ImagePaint;
+      const mode = fill.scaleMode.charAt(0) + fill.scaleMode.slice(1).toLowerCase();
+      const hidden = fill.visible === false ? ' (hidden)' : '';
+      return { index, label: `Image ${position + 1} · ${mode}${hidden}` };
+    });
+  }
+
+  // Visible image-filled descendants of a container, in layer order
+  function findImageDescendants(node: SceneNode): SceneNode[] {
+    if (!('findAll' in node)) return [];
+    const isShown = (child: BaseNode): boolean =>
+      child === node || ('visible' in child && child.visible && !!child.parent && isShown(child.parent));
+    return node
+      .findAll((child) => getImageFillIndexes(child).length > 0 && isShown(child))
+      .slice(0, MAX_NESTED_IMAGES);
+  }
+
+  async function describeNestedImages(nodes: SceneNode[]): Promise<NestedImageOption[]> {
+    const options: NestedImageOption[] = [];
+    for (const nested of nodes) {
+      let thumbnail: Uint8Array | null = null;
+      try {
+        thumbnail = await nested.exportAsync({
+          format: 'PNG',
+          constraint: { type: 'HEIGHT', value: NESTED_THUMBNAIL_SIZE }
+        });
+      } catch (error) {
+        console.warn(`⚠️ Thumbnail export failed for ${nested.name}:`, error);
+      }
+      options.push({ nodeId: nested.id, name: nested.name, thumbnail });
+    }
+    return options;
+  }
+
+  // The nested image picked for a selected container (the first one for 'all'), else the node itself
+  function resolveNestedTarget(node: SceneNode): SceneNode {
+    const target = nestedSelection[node.id];
+    if (!target || !('findOne' in node)) return node;
+    if (target === 'all') return findImageDescendants(node)[0] ?? node;
+    return node.findOne((child) => child.id === target) ?? node;
+  }
+
+  // Nodes a selection-wide action works on, with the nested image choice applied
+  function getEffectiveSelection(): readonly SceneNode[] {
+    const selection = figma.currentPage.selection;
+    if (selection.length !== 1) return selection;
+    const node = selection[0];
+    if (nestedSelection[node.id] === 'all') {
+      const nested = findImageDescendants(node);
+      if (nested.length > 0) return nested;
+    }
+    return [resolveNestedTarget(node)];
+  }
+
+  // Visible part of a CROP fill in normalized image coordinates; null when the whole image is used
+  function getFillCrop(fill: ImagePaint): ImageCrop | null {
+    if (fill.scaleMode !== 'CROP' || !fill.imageTransform) return null;
+    const [[a, b, tx], [c, d, ty]] = fill.imageTransform;
+    // Rotated crops are rendered over the whole image
+    if (Math.abs(b) > 1e-6 || Math.abs(c) > 1e-6) return null;
+    const x = Math.min(Math.max(tx, 0), 1);
+    const y = Math.min(Math.max(ty, 0), 1);
+    const width = Math.min(a, 1 - x);
+    const height = Math.min(d, 1 - y);
+    if (width <= 0 || height <= 0) return null;
+    if (x === 0 && y === 0 && width >= 1 && height >= 1) return null;
+    return { x, y, width, height };
+  }
+
+  // Image-filled nodes are displaced in place; any other visible layer is rasterized first
+  function getSourceKind(node: SceneNode): 'fill' | 'raster' | null {
+    const imageFill = findImageFill(node);
+    if (imageFill && imageFill.imageHash) return 'fill';
+    if (!node.visible || !('exportAsync' in node)) return null;
+    const bounds = node.absoluteBoundingBox;
+    return bounds && bounds.width > 0 && bounds.height > 0 ? 'raster' : null;
+  }
+
+  // PNG of the node at its bounding box (text, vectors, groups, frames...)
+  async function rasterizeNode(node: SceneNode, maxSide: number = RASTER_MAX_SIDE): Promise<Uint8Array> {
+    const bounds = node.absoluteBoundingBox;
+    const boundsSide = Math.max(bounds ? bounds.width : 1, bounds ? bounds.height : 1, 1);
+    const scale = Math.min(RASTER_EXPORT_SCALE, maxSide / boundsSide);
+    return node.exportAsync({
+      format: 'PNG',
+      constraint: { type: 'SCALE', value: scale },
+      useAbsoluteBounds: true
+    });
+  }
+
+  function readRecipe(node: SceneNode): DisplaceRecipe | null {
+    return parseRecipe(node.getPluginData(RECIPE_PLUGIN_DATA_KEY));
+  }
+
+  // Hash of the pre-effect image: kept from the recipe while its result is still in place,
+  // otherwise the fill's current image becomes the new original
+  function getOriginalImageHash(node: FillableNode, fillIndex?: number): string | null {
+    const target = findTargetFill(node, fillIndex);
+    const imageFill = target ? target.fill : null;
+    if (!imageFill || !imageFill.imageHash) return null;
+    const recipe = readRecipe(node);
+    if (recipe && recipe.resultImageHash === imageFill.imageHash) {
+      return recipe.originalImageHash;
+    }
+    return imageFill.imageHash;
+  }
+
+  // Largest side a rasterized preview source may have; beyond Figma's limit only with tiled export
+  async function getRasterMaxSide(): Promise<number> {
+    const tiled = !!(await pluginStorage.getAsync(TILED_EXPORT_STORAGE_KEY));
+    return tiled ? APP_CONFIG.QUALITY.TILED_EXPORT.MAX_SIDE : RASTER_MAX_SIDE;
+  }
+
+  // Image the effect is rendered from, so re-applying never stacks displacement
+  async function loadSourceImage(node: SceneNode, rasterMaxSide?: number): Promise<{
+    imageBytes: Uint8Array;
+    recipe: DisplaceRecipe | null;
+    kind: 'fill' | 'raster';
+    fillIndex: number | null;
+    crop: ImageCrop | null;
+  } | null> {
+    const kind = getSourceKind(node);
+    if (!kind) return null;
+    // A tiled result frame is re-rendered from its hidden source's image (swapped images
+    // included), or else from the original its recipe points at
+    const tiledRecipe = isTiledResult(node) ? readRecipe(node) : null;
+    const hiddenSource = tiledRecipe ? getHiddenSource(node, tiledRecipe) : null;
+    const tiledOriginal = tiledRecipe ? figma.getImageByHash(
+      (hiddenSource && getOriginalImageHash(hiddenSource as FillableNode, tiledRecipe.fillIndex)) || tiledRecipe.originalImageHash
+    ) : null;
+    if (tiledOriginal) {
+      const imageBytes = await tiledOriginal.getBytesAsync();
+      lastRaster = { nodeId: node.id, imageBytes };
+      return { imageBytes, recipe: tiledRecipe, kind, fillIndex: null, crop: null };
+    }
+    if (kind === 'raster') {
+      const imageBytes = await rasterizeNode(node, rasterMaxSide);
+      lastRaster = { nodeId: node.id, imageBytes };
+      return { imageBytes, recipe: null, kind, fillIndex: null, crop: null };
+    }
+
+    const { fill: imageFill, index: fillIndex } = findTargetFill(node)!;
+    const crop = getFillCrop(imageFill);
+    const recipe = readRecipe(node);
+    // An effect added as a separate fill leaves the source fill on its original image
+    const isRecipeSource = recipe && (recipe.resultImageHash === imageFill.imageHash ||
+      (recipe.addedFill && recipe.originalImageHash === imageFill.imageHash));
+    if (recipe && isRecipeSource) {
+      try {
+        const original = figma.getImageByHash(recipe.originalImageHash);
+        if (original) {
+          return { imageBytes: await original.getBytesAsync(), recipe, kind, fillIndex, crop };
+        }
+      } catch (error) {
+        console.warn('Original image of the recipe is unavailable, using the current fill:', error);
+      }
+    }
+
+    const image = figma.getImageByHash(imageFill.imageHash!);
+    if (!image) {
+      throw new Error('Image not found by hash');
+    }
+    return { imageBytes: await image.getBytesAsync(), recipe: null, kind, fillIndex, crop };
+  }
+
+  function writeRecipe(
+    node: SceneNode,
+    payload: RecipePayload,
+    originalImageHash: string,
+    resultImageHash: string,
+    fillIndex?: number,
+    addedFill = false,
+    tiledResult: Pick<DisplaceRecipe, 'hiddenSourceId'> | null = null
+  ) {
+    const recipe: DisplaceRecipe = {
+      version: RECIPE_VERSION,
+      originalImageHash,
+      resultImageHash,
+      fillIndex,
+      addedFill: addedFill || undefined,
+      tiled: tiledResult ? true : undefined,
+      hiddenSourceId: tiledResult?.hiddenSourceId,
+      presetId: payload.presetId,
+      layers: payload.layers,
+      settings: payload.settings,
+      appliedAt: Date.now()
+    };
+    node.setPluginData(RECIPE_PLUGIN_DATA_KEY, serializeRecipe(recipe));
+    node.setRelaunchData({ edit: `Strength ${payload.settings.strength} · Scale ${payload.settings.scale}` });
+  }
+
+  // Put the pre-effect image back and drop the recipe. Returns false when there is nothing to revert.
+  async function revertNode(node: SceneNode): Promise<boolean> {
+    const recipe = readRecipe(node);
+    if (recipe && recipe.tiled && node.type === 'FRAME') {
+      await revertTiledResult(node, recipe);
+      return true;
+    }
+    if (!recipe || !('fills' in node) || node.fills === figma.mixed) return false;
+
+    const fills = node.fills as readonly Paint[];
+    const isResult = (fill: Paint | undefined) => !!fill && fill.type === 'IMAGE' && fill.imageHash === recipe.resultImageHash;
+
+    // Effect added as its own fill: the source fill was never touched, just drop the layer
+    if (recipe.addedFill) {
+      node.fills = fills.filter((fill) => !isResult(fill));
+      node.setPluginData(RECIPE_PLUGIN_DATA_KEY, '');
+      node.setRelaunchData({});
+      return true;
+    }
+    // Prefer the slot the effect was applied to, then any slot still holding the result,
+    // and if the result was swapped elsewhere fall back to the first image fill
+    let targetIndex = typeof recipe.fillIndex === 'number' && isResult(fills[recipe.fillIndex])
+      ? recipe.fillIndex
+      : fills.findIndex(isResult);
+    if (targetIndex < 0) {
+      targetIndex = fills.findIndex((fill) => fill.type === 'IMAGE');
+    }
+    if (targetIndex >= 0) {
+      node.fills = fills.map((fill, index) =>
+        index === targetIndex ? { ...(fill as ImagePaint), imageHash: recipe.originalImageHash } : fill
+      );
+    }
+    node.setPluginData(RECIPE_PLUGIN_DATA_KEY, '');
+    node.setRelaunchData({});
+    return true;
+  }
+
+  // A tiled result that replaced its source (modify mode) goes away and the source shows again;
+  // otherwise, like a rasterized result, its tiles give way to the original image
+  async function revertTiledResult(frame: FrameNode, recipe: DisplaceRecipe) {
+    const source = recipe.hiddenSourceId ? await figma.getNodeByIdAsync(recipe.hiddenSourceId) : null;
+    if (source && !source.removed && 'visible' in source) {
+      source.visible = true;
+      frame.remove();
+      return;
+    }
+    frame.children.forEach((child) => child.remove());
+    frame.fills = [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: recipe.originalImageHash }];
+    frame.setPluginData(RECIPE_PLUGIN_DATA_KEY, '');
+    frame.setRelaunchData({});
+  }
+
+  async function revertSelection() {
+    let reverted = 0;
+    let withoutRecipe = 0;
+    for (const node of getEffectiveSelection()) {
+      if (await revertNode(node)) {
+        reverted++;
+      } else {
+        withoutRecipe++;
+      }
+    }
+    return { reverted, withoutRecipe };
+  }
+
+  function describeRevert(reverted: number, withoutRecipe: number): string {
+    const skippedNote = withoutRecipe > 0 ? `, ${withoutRecipe} without Displace effect` : '';
+    return `Reverted ${reverted} ${reverted === 1 ? 'layer' : 'layers'}${skippedNote}`;
+  }
+
+  // "Re-apply last effect": the last applied recipe over every processable selected node.
+  // Closes the plugin with a hint when there is nothing to do.
+  async function prepareReapplyJob(): Promise<HeadlessJob | null> {
+    const recipe = await pluginStorage.getAsync(LAST_RECIPE_STORAGE_KEY);
+    if (!isRecipePayload(recipe)) {
+      figma.closePlugin('No Displace effect has been applied yet');
+      return null;
+    }
+    const { targets } = collectBatchTargets();
+    if (targets.length === 0) {
+      figma.closePlugin('Select layers to re-apply the last Displace effect');
+      return null;
+    }
+    return { recipe, targets };
+  }
+
+  // "Apply preset…" quick action: the chosen preset with the typed strength and scale
+  async function prepareQuickApplyJob(values: ParameterValues): Promise<HeadlessJob | null> {
+    const preset = (await loadQuickPresets()).find((p) => p.id === values.preset);
+    if (!preset) {
+      figma.closePlugin('Preset not found. Open Displace to refresh the preset library');
+      return null;
+    }
+
+    const settings = { ...APP_CONFIG.DEFAULT_EFFECT_SETTINGS, strength: preset.defaultStrength, scale: preset.defaultScale };
+    for (const [key, range] of [['strength', STRENGTH_RANGE], ['scale', SCALE_RANGE]] as const) {
+      const input = values[key];
+      if (input === undefined || input === null || input === '') continue;
+      const error = checkRangeInput(String(input), range);
+      if (error) {
+        figma.closePlugin(error);
+        return null;
+      }
+      settings[key] = Number(input);
+    }
+
+    const { targets } = collectBatchTargets();
+    if (targets.length === 0) {
+      figma.closePlugin('Select layers to apply the Displace effect to');
+      return null;
+    }
+    // Custom preset maps stay in clientStorage; the UI resolves them by id (see DisplaceRecipe.layers)
+    const layers = 'isCustom' in preset && preset.isCustom ? [] : preset.layers;
+    return { recipe: { presetId: preset.id, layers, settings }, targets };
+  }
+
+  // Image fills of the node showing the image: directly, or as the live result of a recipe made from it
+  function findImageUseIndexes(node: SceneNode, imageHash: string): number[] {
+    const indexes = getImageFillIndexes(node);
+    if (indexes.length === 0) return [];
+    const fills = (node as FillableNode).fills as readonly Paint[];
+    const recipe = readRecipe(node);
+    return indexes.filter((index) => {
+      const hash = (fills[index] as ImagePaint).imageHash;
+      return hash === imageHash ||
+        (!!recipe && recipe.originalImageHash === imageHash && recipe.resultImageHash === hash);
+    });
+  }
+
+  // Every layer using an image, scanned top-level layer by top-level layer with progress reports
+  async function findImageUses(imageHash: string, scope: ImageUseScope, requestId?: string): Promise<ImageUse[]> {
+    if (scope === 'document') {
+      await figma.loadAllPagesAsync();
+    }
+    const pages = scope === 'document' ? figma.root.children : [figma.currentPage];
+    const roots = pages.flatMap((page) => page.children.map((child) => ({ page, child })));
+    const uses: ImageUse[] = [];
+    const isUse = (node: SceneNode) => findImageUseIndexes(node, imageHash).length > 0;
+
+    for (let i = 0; i < roots.length; i++) {
+      const { page, child } = roots[i];
+      const matches = 'findAll' in child ? child.findAll(isUse) : [];
+      if (isUse(child)) {
+        matches.unshift(child);
+      }
+      matches.forEach((node) => uses.push({ nodeId: node.id, name: node.name, pageName: page.name }));
+
+      if ((i + 1) % IMAGE_SCAN_PROGRESS_STEP === 0 || i === roots.length - 1) {
+        postToUi({ type: 'image-uses-progress', scanned: i + 1, total: roots.length, found: uses.length, requestId });
+        // Let the progress message through before scanning on
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+    return uses;
+  }
+
+  // Blend mode and opacity of the fill layer a recipe added, so a re-render keeps them
+  function getAddedFillOptions(node: SceneNode, recipe: DisplaceRecipe): FillLayerOptions | null {
+    if (!recipe.addedFill || !('fills' in node) || node.fills === figma.mixed) return null;
+    const added = (node.fills as readonly Paint[]).find(
+      (fill) => fill.type === 'IMAGE' && fill.imageHash === recipe.resultImageHash
+    );
+    return added ? parseFillLayerOptions({ blendMode: added.blendMode, opacity: added.opacity }) : null;
+  }
+
+  function getPage(node: BaseNode): PageNode | null {
+    let current: BaseNode | null = node;
+    while (current && current.type !== 'PAGE') {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  async function describeRecipeNode(node: SceneNode, recipe: DisplaceRecipe, withThumbnail: boolean): Promise<RecipeNodeInfo> {
+    let thumbnail: Uint8Array | null = null;
+    if (withThumbnail) {
+      try {
+        thumbnail = await node.exportAsync({
+          format: 'PNG',
+          constraint: { type: 'HEIGHT', value: INSPECTOR_THUMBNAIL_SIZE }
+        });
+      } catch (error) {
+        console.warn(`⚠️ Thumbnail export failed for ${node.name}:`, error);
+      }
+    }
+    const page = getPage(node);
+    return {
+      nodeId: node.id,
+      name: node.name,
+      pageId: page ? page.id : '',
+      pageName: page ? page.name : '',
+      recipe,
+      fillLayer: getAddedFillOptions(node, recipe),
+      thumbnail
+    };
+  }
+
+  // Inspector: every layer of the document that carries a recipe, page by page
+  async function scanRecipeNodes(): Promise<RecipeNodeInfo[]> {
+    await figma.loadAllPagesAsync();
+    const nodes: RecipeNodeInfo[] = [];
+    for (const page of figma.root.children) {
+      const candidates = page.findAllWithCriteria({ pluginData: { keys: [RECIPE_PLUGIN_DATA_KEY] } });
+      for (const node of candidates as SceneNode[]) {
+        const recipe = readRecipe(node);
+        if (recipe) {
+          nodes.push(await describeRecipeNode(node, recipe, true));
+        }
+      }
+    }
+    return nodes;
+  }
+
+  // A recipe goes stale once its source image is swapped: the target fill then shows
+  // neither the result (replaced fill) nor the original (result added as a fill layer).
+  // A tiled result goes stale with the image of the source it hides.
+  function isRecipeStale(node: SceneNode): boolean {
+    const recipe = readRecipe(node);
+    if (recipe && recipe.tiled) {
+      const hiddenSource = getHiddenSource(node, recipe);
+      const imageHash = hiddenSource ? getOriginalImageHash(hiddenSource as FillableNode, recipe.fillIndex) : null;
+      return !!imageHash && imageHash !== recipe.originalImageHash;
+    }
+    const target = recipe ? findTargetFill(node, recipe.fillIndex) : null;
+    if (!recipe || !target) return false;
+    const expectedHash = recipe.addedFill ? recipe.originalImageHash : recipe.resultImageHash;
+    return target.fill.imageHash !== expectedHash;
+  }
+
+  // Tracks fill edits on recipe layers; refreshed layers drop out of the stale set the same way
+  function onDocumentChange(event: DocumentChangeEvent) {
+    let changed = false;
+    for (const change of event.documentChanges) {
+      if (change.type !== 'PROPERTY_CHANGE' || !change.properties.includes('fills')) continue;
+      const node = change.node;
+      if ('removed' in node && node.removed) continue;
+      // Fill edits on a layer hidden under a tiled result concern the result frame
+      const tiledResults = node.parent && node.parent.type !== 'DOCUMENT'
+        ? node.parent.children.filter((child) => isTiledResult(child) && readRecipe(child)?.hiddenSourceId === node.id)
+        : [];
+      for (const recipeNode of [node as SceneNode, ...tiledResults]) {
+        const stale = isRecipeStale(recipeNode);
+        if (stale !== staleNodeIds.has(recipeNode.id)) {
+          if (stale) {
+            staleNodeIds.add(recipeNode.id);
+          } else {
+            staleNodeIds.delete(recipeNode.id);
+          }
+          changed = true;
+        }
+      }
+    }
+    if (changed) {
+      if (staleReportTimer !== null) {
+        clearTimeout(staleReportTimer);
+      }
+      staleReportTimer = setTimeout(() => {
+        staleReportTimer = null;
+        reportStaleNodes();
+      }, STALE_REPORT_DELAY);
+    }
+  }
+
+  // Sends the stale layers with the auto re-render opt-in; the UI shows a badge or re-renders them
+  async function reportStaleNodes(requestId?: string) {
+    const nodes: RecipeNodeInfo[] = [];
+    for (const nodeId of [...staleNodeIds]) {
+      const node = await figma.getNodeByIdAsync(nodeId);
+      const recipe = node && !node.removed && node.type !== 'PAGE' && node.type !== 'DOCUMENT' && isRecipeStale(node)
+        ? readRecipe(node)
+        : null;
+      if (!node || !recipe) {
+        staleNodeIds.delete(nodeId);
+        continue;
+      }
+      nodes.push(await describeRecipeNode(node as SceneNode, recipe, false));
+    }
+    const autoRerender = !!(await pluginStorage.getAsync(AUTO_RERENDER_STORAGE_KEY));
+    postToUi({ type: 'stale-nodes', nodes, autoRerender, requestId });
+  }
+
+  async function loadFavourites(): Promise<FavouriteRecipe[]> {
+    const favourites = await pluginStorage.getAsync(FAVOURITES_STORAGE_KEY);
+    return Array.isArray(favourites) ? favourites.filter(isFavourite) : [];
+  }
+
+  function getUnsupportedReason(node: SceneNode): 'not-rasterizable' | null {
+    return getSourceKind(node) ? null : 'not-rasterizable';
+  }
+
+  // Split the current selection into nodes we can process and nodes we have to skip
+  function collectBatchTargets() {
+    const targets: { id: string; name: string }[] = [];
+    const skipped: { id: string; name: string; reason: string }[] = [];
+    for (const node of getEffectiveSelection()) {
+      const reason = getUnsupportedReason(node);
+      if (reason) {
+        skipped.push({ id: node.id, name: node.name, reason });
+      } else {
+        targets.push({ id: node.id, name: node.name });
+      }
+    }
+    return { targets, skipped };
+  }
+
+  async function getSceneNode(nodeId: string): Promise<SceneNode> {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+      throw new Error('Layer no longer exists');
+    }
+    return node as SceneNode;
+  }
+
+  function getSelectedNode(): SceneNode | null {
     const selection = figma.currentPage.selection;
     if (selection.length === 0) {
-      figma.ui.postMessage({ type: 'selection-cleared' });
+      postToUi({ type: 'selection-cleared' });
       return null;
     }
     if (selection.length > 1) {
-      figma.ui.postMessage({ type: 'unsupported-node', reason: 'multiple' });
+      postToUi({ type: 'unsupported-node', reason: 'multiple' });
       return null;
     }
-    const node = selection[0];
-    if (!('fills' in node) || node.fills === figma.mixed) {
-      figma.ui.postMessage({ type: 'unsupported-node', reason: 'vector' });
-      return null;
+    return resolveNestedTarget(selection[0]);
+  }
+
+  // Moves a node so its top-left corner lands on an absolute canvas point (parents assumed unrotated)
+  function moveToAbsolute(node: SceneNode, x: number, y: number) {
+    node.x = 0;
+    node.y = 0;
+    const originX = node.absoluteTransform[0][2];
+    const originY = node.absoluteTransform[1][2];
+    node.x = x - originX;
+    node.y = y - originY;
+  }
+
+  function parseCopyLayout(raw: unknown): CopyLayout {
+    const directions: CopyLayout['direction'][] = ['right', 'below', 'grid', 'frame'];
+    const layout = isRecord(raw) ? raw : {};
+    const direction = directions.find((value) => value === layout.direction) ?? 'right';
+    const columns = typeof layout.columns === 'number' && Number.isInteger(layout.columns)
+      ? Math.min(Math.max(layout.columns, 1), MAX_COPY_COLUMNS)
+      : 3;
+    return { direction, columns };
+  }
+
+  // Inserts a new node right above `reference` in its parent (on the page if the parent refuses it)
+  function insertAbove(reference: SceneNode, node: RectangleNode | FrameNode) {
+    const parent = reference.parent;
+    try {
+      if (!parent) throw new Error('Layer has no parent');
+      parent.insertChild(parent.children.indexOf(reference) + 1, node);
+      if ('layoutMode' in parent && parent.layoutMode !== 'NONE') {
+        node.layoutPositioning = 'ABSOLUTE';
+      }
+    } catch {
+      // e.g. layers inside instances cannot take new children
+      figma.currentPage.appendChild(node);
     }
-    return node;
   }
 
-  // Listen for selection changes
-  figma.on('selectionchange', processSelectedImage);
+  // Auto-layout frame collecting the copies of one origin, created to the right of it on first use
+  function ensureCopyFrame(origin: SceneNode, chain: CopyChain, gap: number): FrameNode {
+    if (chain.frame && !chain.frame.removed) return chain.frame;
+
+    const frame = figma.createFrame();
+    frame.name = `${origin.name} · Variations`;
+    frame.fills = [];
+    frame.layoutMode = 'HORIZONTAL';
+    frame.primaryAxisSizingMode = 'AUTO';
+    frame.counterAxisSizingMode = 'AUTO';
+    frame.itemSpacing = gap;
+    frame.paddingLeft = frame.paddingRight = frame.paddingTop = frame.paddingBottom = gap;
+    insertAbove(origin, frame);
+    frame.x = chain.right + gap;
+    frame.y = chain.anchorY;
+    chain.frame = frame;
+    return frame;
+  }
+
+  // Places a copy next to its origin with 10% padding, continuing after earlier copies of the
+  // same origin: in a row, in a column, in a wrapping grid or inside an auto-layout frame
+  function placeInCopyChain(origin: SceneNode, copy: SceneNode, layout: CopyLayout) {
+    const paddingRatio = 0.1; // 10%
+    const baseWidth = origin.width;
+    const baseHeight = origin.height;
+    const gapX = Math.round(baseWidth * paddingRatio);
+    const gapY = Math.round(baseHeight * paddingRatio);
+    const baseX = origin.x;
+    const baseY = origin.y;
+
+    const originId = origin.id;
+    const parentId = origin.parent ? origin.parent.id : null;
+    const layoutKey = `${layout.direction}:${layout.columns}`;
+    let chain = chainState[originId];
+    // Start over if parent changed, original moved (x/y changed) or another layout was picked
+    if (!chain || chain.parentId !== parentId || chain.anchorX !== baseX || chain.anchorY !== baseY || chain.layoutKey !== layoutKey) {
+      chain = {
+        layoutKey,
+        count: 0,
+        right: baseX + baseWidth,
+        bottom: baseY + baseHeight,
+        parentId,
+        anchorX: baseX,
+        anchorY: baseY,
+        frame: null
+      };
+    }
+
+    const copyWidth = copy.width;
+    const copyHeight = copy.height;
+    let target: { x: number; y: number } | null = null;
+    switch (layout.direction) {
+      case 'below':
+        target = { x: baseX, y: chain.bottom + gapY };
+        chain.bottom = target.y + copyHeight;
+        break;
+      case 'grid': {
+        // Grid cells start right of the original, so column 0 never covers it
+        const column = chain.count % layout.columns;
+        const row = Math.floor(chain.count / layout.columns);
+        target = { x: baseX + (column + 1) * (baseWidth + gapX), y: baseY + row * (baseHeight + gapY) };
+        break;
+      }
+      case 'frame': {
+        const frame = ensureCopyFrame(origin, chain, gapX);
+        frame.appendChild(copy);
+        if ('layoutPositioning' in copy) copy.layoutPositioning = 'AUTO';
+        break;
+      }
+      default:
+        target = { x: chain.right + gapX, y: baseY };
+        chain.right = target.x + copyWidth;
+    }
+
+    const originBounds = origin.absoluteBoundingBox;
+    if (target && copy.parent !== origin.parent && originBounds) {
+      // Copy landed elsewhere (e.g. on the page when the parent refuses children): the target is
+      // relative to the origin's parent, so place it by the same offset from the origin's bounds
+      moveToAbsolute(copy, originBounds.x + target.x - baseX, originBounds.y + target.y - baseY);
+    } else if (target) {
+      copy.x = target.x;
+      copy.y = target.y;
+    }
+    chain.count++;
+    chainState[originId] = chain;
+  }
+
+  function parseFillLayerOptions(raw: unknown): FillLayerOptions {
+    const options = isRecord(raw) ? raw : {};
+    const blendMode = FILL_BLEND_MODES.find((mode) => mode === options.blendMode) ?? 'NORMAL';
+    const opacity = typeof options.opacity === 'number' && isFinite(options.opacity) ? Math.min(Math.max(options.opacity, 0), 1) : 1;
+    return { blendMode, opacity };
+  }
+
+  // Stacks the result as its own image paint right above the source fill, reusing the source's
+  // scale mode and crop so both line up. A Displace layer added earlier is replaced, not piled up.
+  function addResultFill(node: FillableNode, fillIndex: number, imageHash: string, options: FillLayerOptions): Paint[] {
+    const fills = [...(node.fills as readonly Paint[])];
+    const layer: ImagePaint = {
+      ...(fills[fillIndex] as ImagePaint),
+      imageHash,
+      blendMode: options.blendMode as BlendMode,
+      opacity: options.opacity,
+      visible: true
+    };
+    const recipe = readRecipe(node);
+    const previous = recipe && recipe.addedFill
+      ? fills.findIndex((fill, index) => index !== fillIndex && fill.type === 'IMAGE' && fill.imageHash === recipe.resultImageHash)
+      : -1;
+    if (previous >= 0) {
+      fills[previous] = layer;
+    } else {
+      fills.splice(fillIndex + 1, 0, layer);
+    }
+    return fills;
+  }
+
+  // Inserts a displaced raster as an image rectangle with the source node's bounds:
+  // directly above the original, or next to it in copy mode. In fill mode the blend
+  // mode and opacity go on the rectangle itself.
+  async function insertRasterResult(
+    source: SceneNode,
+    newImage: Image,
+    options: { mode: ApplyMode; recipe?: RecipePayload; fillLayer?: FillLayerOptions | null; copyLayout: CopyLayout; copyName?: string }
+  ) {
+    const { mode, recipe, fillLayer } = options;
+    const bounds = source.absoluteBoundingBox!;
+    const rect = figma.createRectangle();
+    rect.name = mode === 'copy' && options.copyName ? options.copyName : `${source.name} (Displaced)`;
+    rect.resize(Math.max(1, bounds.width), Math.max(1, bounds.height));
+    rect.fills = [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: newImage.hash }];
+    if (fillLayer) {
+      rect.blendMode = fillLayer.blendMode as BlendMode;
+      rect.opacity = fillLayer.opacity;
+    }
+
+    insertAbove(source, rect);
+    moveToAbsolute(rect, bounds.x, bounds.y);
+    if (mode === 'copy') {
+      placeInCopyChain(source, rect, options.copyLayout);
+    }
+
+    // The rasterized original becomes the recipe's source, so the result stays re-editable
+    if (recipe) {
+      const original = await createRasterOriginal(source);
+      writeRecipe(rect, recipe, original.hash, newImage.hash);
+    }
+    return rect;
+  }
+
+  // Image of a rasterized layer for its recipe: the bytes the UI rendered from when they are
+  // still at hand (and within Figma's image limit), otherwise a fresh export
+  async function createRasterOriginal(source: SceneNode): Promise<Image> {
+    if (lastRaster && lastRaster.nodeId === source.id) {
+      try {
+        return figma.createImage(lastRaster.imageBytes);
+      } catch (error) {
+        console.warn('Rasterized original is past Figma\'s image limit, exporting it again:', error);
+      }
+    }
+    return figma.createImage(await rasterizeNode(source));
+  }
+
+  // Inserts a result rendered in tiles as a frame of image rectangles, one per tile, over the
+  // source node's bounds (or at the viewport center without a source). In modify mode the frame
+  // stands in for the source, which is hidden (or, for an earlier tiled result, replaced); its
+  // recipe points at the source's original image so revert and re-editing keep working.
+  async function insertTiledResult(
+    source: SceneNode | null,
+    result: { width: number; height: number; tiles: ResultTile[] },
+    options: {
+      mode: ApplyMode;
+      recipe?: RecipePayload;
+      fillIndex?: number;
+      fillLayer?: FillLayerOptions | null;
+      copyLayout: CopyLayout;
+      copyName?: string;
+    }
+  ) {
+    const { mode, fillLayer, copyName } = options;
+    const bounds = source?.absoluteBoundingBox ?? null;
+    const frameWidth = bounds ? Math.max(1, bounds.width) : result.width;
+    const frameHeight = bounds ? Math.max(1, bounds.height) : result.height;
+    const scaleX = frameWidth / result.width;
+    const scaleY = frameHeight / result.height;
+
+    const frame = figma.createFrame();
+    frame.name = mode === 'copy' && copyName ? copyName : `${source ? source.name : 'Image'} (Displaced)`;
+    frame.fills = [];
+    frame.clipsContent = true;
+    frame.resize(frameWidth, frameHeight);
+    let firstImageHash: string | null = null;
+    for (const tile of result.tiles) {
+      const image = figma.createImage(tile.imageBytes);
+      firstImageHash = firstImageHash ?? image.hash;
+      const rect = figma.createRectangle();
+      rect.name = `Tile ${Math.round(tile.x)},${Math.round(tile.y)}`;
+      rect.resize(Math.max(0.01, tile.width * scaleX), Math.max(0.01, tile.height * scaleY));
+      rect.fills = [{ type: 'IMAGE', scaleMode: 'FILL', imageHash: image.hash }];
+      frame.appendChild(rect);
+      rect.x = tile.x * scaleX;
+      rect.y = tile.y * scaleY;
+    }
+    if (fillLayer) {
+      frame.blendMode = fillLayer.blendMode as BlendMode;
+      frame.opacity = fillLayer.opacity;
+    }
+
+    if (!source || !bounds) {
+      figma.currentPage.appendChild(frame);
+      const center = figma.viewport.center;
+      frame.x = center.x - frame.width / 2;
+      frame.y = center.y - frame.height / 2;
+      figma.currentPage.selection = [frame];
+      return frame;
+    }
+
+    insertAbove(source, frame);
+    moveToAbsolute(frame, bounds.x, bounds.y);
+    if (mode === 'copy') {
+      placeInCopyChain(source, frame, options.copyLayout);
+    }
+
+    const previousFrame = isTiledResult(source) ? source : null;
+    const previousTiled = previousFrame ? readRecipe(previousFrame) : null;
+    let originalImageHash: string | null;
+    let fillIndex: number | undefined;
+    if (previousTiled) {
+      const hiddenSource = getHiddenSource(source, previousTiled);
+      fillIndex = previousTiled.fillIndex;
+      originalImageHash = (hiddenSource && getOriginalImageHash(hiddenSource as FillableNode, fillIndex)) ||
+        previousTiled.originalImageHash;
+    } else if (getSourceKind(source) === 'fill') {
+      fillIndex = findTargetFill(source, options.fillIndex)?.index;
+      originalImageHash = getOriginalImageHash(source as FillableNode, fillIndex);
+    } else {
+      originalImageHash = (await createRasterOriginal(source)).hash;
+    }
+
+    let hiddenSourceId: string | undefined;
+    // The frame takes over the selection only from a selected source (re-renders leave it alone)
+    const wasSelected = figma.currentPage.selection.includes(source);
+    if (mode === 'modify') {
+      if (previousFrame && previousTiled) {
+        // Re-rendered in place: the new frame keeps the old one's blending and hidden source
+        hiddenSourceId = previousTiled.hiddenSourceId;
+        frame.blendMode = previousFrame.blendMode;
+        frame.opacity = previousFrame.opacity;
+        previousFrame.remove();
+      } else {
+        source.visible = false;
+        hiddenSourceId = source.id;
+      }
+    }
+    if (options.recipe && originalImageHash && firstImageHash) {
+      writeRecipe(frame, options.recipe, originalImageHash, firstImageHash, fillIndex, false, { hiddenSourceId });
+    }
+    if (mode === 'modify' && wasSelected) {
+      figma.currentPage.selection = [frame];
+    }
+    return frame;
+  }
+
+  function isTiledResult(node: SceneNode): node is FrameNode {
+    return node.type === 'FRAME' && readRecipe(node)?.tiled === true;
+  }
+
+  // Layer a tiled result hides in modify mode; the frame is inserted next to it
+  function getHiddenSource(frame: SceneNode, recipe: DisplaceRecipe): SceneNode | null {
+    const siblings = frame.parent ? frame.parent.children : [];
+    return recipe.hiddenSourceId ? siblings.find((node) => node.id === recipe.hiddenSourceId) ?? null : null;
+  }
+
+  // Listen for selection changes and swapped source images (a hidden UI renders a fixed job instead)
+  if (!headlessJob) {
+    figma.on('selectionchange', processSelectedImage);
+    figma.on('documentchange', onDocumentChange);
+  }
 
   // Higher-order function for message handling with error catching
-  const withErrorHandling = (handler: (msg: any) => Promise<void>) => {
-    return async (msg: any) => {
+  const withErrorHandling = <K extends UiMessageType>(handler: (msg: UiMessageOf<K>) => Promise<void>) => {
+    return async (msg: UiMessageOf<K>) => {
       try {
         await handler(msg);
       } catch (error) {
         console.error(`Error in handler for ${msg.type}:`, error);
         figma.notify(`Error: ${String(error)}`);
-        figma.ui.postMessage({ type: `${msg.type}-error`, error: String(error) });
+        postToUi({ type: `${msg.type}-error`, error: String(error), requestId: msg.requestId });
       }
     };
   };
 
   // Handlers for UI messages
-  // Session-scoped chain placement state for "apply as copy"
-  const chainState: Record<string, { right: number; y: number; gap: number; parentId: string | null; anchorX: number; anchorY: number }> = {};
-  const messageHandlers: { [type: string]: (msg: any) => Promise<void> } = {
+  const messageHandlers: { [K in UiMessageType]: (msg: UiMessageOf<K>) => Promise<void> } = {
     // UI handshake: when UI is ready, (re)send current selection and presets
     'ui-ready': withErrorHandling(async () => {
       // Ensure presets are available in UI (in case initial send happened before UI listeners attached)
       await loadAndSendCustomPresets();
+      loadAndSendFilePresets();
+      postToUi({ type: 'export-settings', tiledExport: !!(await pluginStorage.getAsync(TILED_EXPORT_STORAGE_KEY)) });
+      // Hidden UI: hand over the render job instead of the selection
+      if (headlessJob) {
+        postToUi({ type: 'headless-job', ...headlessJob });
+        return;
+      }
       // Send current selection state
       await processSelectedImage();
+      await reportStaleNodes();
+      if (command === 'apply-favourite') {
+        postToUi({ type: 'show-favourites' });
+      }
+    }),
+    // Re-send the current selection (e.g. after a batch run reused the preview engine)
+    'refresh-selection': withErrorHandling(async () => {
+      await processSelectedImage();
+    }),
+
+    // Switch the processed image fill of the selected node
+    'select-image-fill': withErrorHandling(async (msg) => {
+      const selected = figma.currentPage.selection[0];
+      const node = selected && resolveNestedTarget(selected);
+      if (node && typeof msg.fillIndex === 'number') {
+        fillSelection[node.id] = msg.fillIndex;
+      }
+      await processSelectedImage();
     }),
+
+    // Opt in or out of re-rendering stale effects without asking
+    'set-auto-rerender': withErrorHandling(async (msg) => {
+      await pluginStorage.setAsync(AUTO_RERENDER_STORAGE_KEY, msg.enabled);
+      await reportStaleNodes(msg.requestId);
+    }),
+
+    // Opt in or out of full-resolution tiled export; rasterized sources are re-read at the new size
+    'set-tiled-export': withErrorHandling(async (msg) => {
+      await pluginStorage.setAsync(TILED_EXPORT_STORAGE_KEY, msg.enabled);
+      postToUi({ type: 'export-settings', tiledExport: msg.enabled, requestId: msg.requestId });
+      await processSelectedImage();
+    }),
+
+    // Inspector: list every layer with a Displace recipe
+    'scan-recipes': withErrorHandling(async (msg) => {
+      postToUi({ type: 'recipe-nodes', nodes: await scanRecipeNodes(), requestId: msg.requestId });
+    }),
+
+    // Inspector: select layers on canvas (on the page of the first one) and bring them into view
+    'select-nodes': withErrorHandling(async (msg) => {
+      const nodes: SceneNode[] = [];
+      for (const nodeId of msg.nodeIds) {
+        try {
+          nodes.push(await getSceneNode(nodeId));
+        } catch {
+          // Deleted since the scan
+        }
+      }
+      const page = nodes.length > 0 ? getPage(nodes[0]) : null;
+      if (page && page !== figma.currentPage) {
+        await figma.setCurrentPageAsync(page);
+      }
+      const onPage = nodes.filter((node) => getPage(node) === figma.currentPage);
+      figma.currentPage.selection = onPage;
+      if (onPage.length > 0) {
+        figma.viewport.scrollAndZoomIntoView(onPage);
+      }
+      postToUi({ type: 'nodes-selected', selected: onPage.length, requestId: msg.requestId });
+    }),
+
+    // Inspector: revert the given layers regardless of the canvas selection
+    'revert-nodes': withErrorHandling(async (msg) => {
+      let reverted = 0;
+      let withoutRecipe = 0;
+      for (const nodeId of msg.nodeIds) {
+        try {
+          if (await revertNode(await getSceneNode(nodeId))) {
+            reverted++;
+            continue;
+          }
+        } catch {
+          // Deleted since the scan
+        }
+        withoutRecipe++;
+      }
+      figma.notify(describeRevert(reverted, withoutRecipe));
+      postToUi({ type: 'revert-result', reverted, withoutRecipe, requestId: msg.requestId });
+    }),
+
+    // Switch between the selected container, one of its nested images, or all of them
+    'select-nested-image': withErrorHandling(async (msg) => {
+      const container = figma.currentPage.selection[0];
+      if (container) {
+        if (msg.target === null) {
+          delete nestedSelection[container.id];
+        } else {
+          nestedSelection[container.id] = msg.target;
+        }
+      }
+      await processSelectedImage();
+    }),
+
+    // Restore the original image on every selected node that carries a recipe
+    'revert-displacement': withErrorHandling(async (msg) => {
+      const { reverted, withoutRecipe } = await revertSelection();
+      figma.notify(describeRevert(reverted, withoutRecipe));
+      postToUi({ type: 'revert-result', reverted, withoutRecipe, requestId: msg.requestId });
+
+      // Reverted nodes no longer carry a recipe: refresh the preview with the plain image
+      if (reverted > 0) {
+        await processSelectedImage();
+      }
+    }),
+
+    // Batch apply: list processable nodes of a multi-node selection
+    'get-batch-targets': withErrorHandling(async (msg) => {
+      const { targets, skipped } = collectBatchTargets();
+      postToUi({ type: 'batch-targets', targets, skipped, requestId: msg.requestId });
+    }),
+
+    // Batch apply: send the original image of a single node to the UI for rendering
+    'get-node-image': withErrorHandling(async (msg) => {
+      const node = await getSceneNode(msg.nodeId);
+      const source = await loadSourceImage(node);
+      if (!source) {
+        throw new Error('Layer is hidden or has no visible size');
+      }
+      postToUi({
+        type: 'node-image',
+        nodeId: msg.nodeId,
+        imageBytes: source.imageBytes,
+        fillIndex: source.fillIndex,
+        crop: source.crop,
+        tiled: isTiledResult(node),
+        requestId: msg.requestId
+      });
+    }),
+
+    // Apply to all uses: find the layers sharing the selected node's (original) image
+    'find-image-uses': withErrorHandling(async (msg) => {
+      const node = getSelectedNode();
+      const target = node ? findTargetFill(node) : null;
+      const imageHash = node && target ? getOriginalImageHash(node as FillableNode, target.index) : null;
+      if (!imageHash) {
+        throw new Error('Select a layer with an image fill');
+      }
+      const uses = await findImageUses(imageHash, msg.scope, msg.requestId);
+      postToUi({ type: 'image-uses-result', imageHash, uses, requestId: msg.requestId });
+    }),
+
+    // Apply to all uses: one new image replaces the scanned image in every listed layer
+    'apply-to-image-uses': withErrorHandling(async (msg) => {
+      const newImage = figma.createImage(msg.imageBytes);
+      let replaced = 0;
+      let failed = 0;
+      for (const nodeId of msg.nodeIds) {
+        try {
+          const node = await getSceneNode(nodeId);
+          const indexes = findImageUseIndexes(node, msg.imageHash);
+          if (indexes.length === 0) continue;
+          const fillNode = node as FillableNode;
+          fillNode.fills = (fillNode.fills as readonly Paint[]).map((fill, index) =>
+            indexes.includes(index) ? { ...(fill as ImagePaint), imageHash: newImage.hash } : fill
+          );
+          if (msg.recipe) {
+            writeRecipe(fillNode, msg.recipe, msg.imageHash, newImage.hash, indexes[0]);
+          }
+          replaced++;
+        } catch (error) {
+          console.warn(`⚠️ Could not replace the image in ${nodeId}:`, error);
+          failed++;
+        }
+      }
+
+      const failedNote = failed > 0 ? `, ${failed} failed` : '';
+      figma.notify(`Replaced the image in ${replaced} ${replaced === 1 ? 'layer' : 'layers'}${failedNote}`);
+      postToUi({ type: 'image-uses-applied', replaced, failed, requestId: msg.requestId });
+    }),
+
+    'batch-finished': withErrorHandling(async (msg) => {
+      const failed = msg.failed > 0 ? `, ${msg.failed} failed` : '';
+      const prefix = msg.cancelled ? 'Batch cancelled' : 'Batch complete';
+      figma.notify(`${prefix}: ${msg.applied} applied${failed}`);
+    }),
+
     'apply-displacement-result': withErrorHandling(async (msg) => {
+      // Batch items target a node by id and are reported back individually (no per-node notify)
+      const isBatchItem = msg.nodeId !== undefined;
+      const mode: ApplyMode = msg.mode ?? 'modify';
+      const fillLayer = mode === 'fill' ? parseFillLayerOptions(msg.fillLayer) : null;
+      const copyLayout = parseCopyLayout(msg.copyLayout);
+      const copyName = msg.copyName?.trim() || undefined;
+      const recipe = msg.recipe;
       // Try to use current selection; if absent, create a new image rectangle centered in the viewport
-      let node = getSelectedImageNode();
+      let node: SceneNode | null = null;
       try {
+        node = msg.nodeId !== undefined ? await getSceneNode(msg.nodeId) : getSelectedNode();
         const newImage = figma.createImage(msg.imageBytes);
+        const sourceKind = node ? getSourceKind(node) : null;
 
-        if (!node || node.fills === figma.mixed) {
+        if (!node || !sourceKind) {
           // No valid selection → insert a new rectangle with the image fill at viewport center
           const size = await newImage.getSizeAsync();
           const rect = figma.createRectangle();
@@ -134,137 +1374,245 @@ async function main() {
           rect.x = center.x - rect.width / 2;
           rect.y = center.y - rect.height / 2;
           figma.currentPage.selection = [rect];
+        } else if (isTiledResult(node)) {
+          // A tiled result stays a frame (of one tile here), so modify mode replaces it
+          const wholeTile = { x: 0, y: 0, width: 1, height: 1, imageBytes: msg.imageBytes };
+          await insertTiledResult(node, { width: 1, height: 1, tiles: [wholeTile] }, {
+            mode, recipe, fillIndex: msg.fillIndex, fillLayer, copyLayout, copyName
+          });
+        } else if (sourceKind === 'raster') {
+          // Non-image layer (text, vector, frame...): the result becomes a new image rectangle
+          await insertRasterResult(node, newImage, { mode, recipe, fillLayer, copyLayout, copyName });
         } else {
-          // Modify/copy the existing selection as before
-          const newFills = (node.fills as readonly Paint[]).map((fill: Paint) => {
-            if (fill.type === 'IMAGE') {
-              const newFill = JSON.parse(JSON.stringify(fill));
-              (newFill as any).imageHash = newImage.hash;
-              return newFill as Paint;
+          // Modify/copy the targeted image fill; other fills stay untouched
+          const fillNode = node as FillableNode;
+          const fillIndex = findTargetFill(fillNode, msg.fillIndex)!.index;
+          const originalImageHash = getOriginalImageHash(fillNode, fillIndex);
+          // Spread keeps scaleMode, imageTransform (crop), rotation and filters of the paint
+          const newFills = (fillNode.fills as readonly Paint[]).map((fill: Paint, index) =>
+            index === fillIndex ? { ...(fill as ImagePaint), imageHash: newImage.hash } : fill
+          );
+          if (mode === 'fill') {
+            // Source fill stays as is; the result is blended over it as an extra fill
+            fillNode.fills = addResultFill(fillNode, fillIndex, newImage.hash, fillLayer!);
+            if (recipe && originalImageHash) {
+              writeRecipe(fillNode, recipe, originalImageHash, newImage.hash, fillIndex, true);
+            }
+          } else if (mode === 'modify') {
+            fillNode.fills = newFills;
+            if (recipe && originalImageHash) {
+              writeRecipe(fillNode, recipe, originalImageHash, newImage.hash, fillIndex);
             }
-            return fill;
-          });
-          const mode = (msg && msg.mode) === 'copy' ? 'copy' : 'modify';
-          if (mode === 'modify') {
-            node.fills = newFills;
           } else {
-            // Duplicate the node, place to the right with 10% padding
-            const duplicated = node.clone();
-            duplicated.fills = newFills as Paint[];
-            const paddingRatio = 0.1; // 10%
-            const baseWidth = ('width' in node ? (node as any).width as number : 0);
-            const gap = Math.round(baseWidth * paddingRatio);
-            const baseX = ('x' in node ? (node as any).x as number : 0);
-            const baseY = ('y' in node ? (node as any).y as number : 0);
-
-            const originId = (node as any).id as string;
-            const parentId = node.parent ? (node.parent as any).id as string : null;
-            const state = chainState[originId] || { right: baseX + baseWidth, y: baseY, gap, parentId, anchorX: baseX, anchorY: baseY };
-            // Reset state if parent changed OR original moved (x/y changed)
-            if (state.parentId !== parentId || state.anchorX !== baseX || state.anchorY !== baseY) {
-              state.right = baseX + baseWidth;
-              state.y = baseY;
-              state.parentId = parentId;
-              state.gap = gap;
-              state.anchorX = baseX;
-              state.anchorY = baseY;
+            // Duplicate the node and lay it out next to the original (or earlier copies)
+            const duplicated = fillNode.clone();
+            duplicated.fills = newFills;
+            if (copyName) {
+              duplicated.name = copyName;
+            }
+            if (recipe && originalImageHash) {
+              writeRecipe(duplicated, recipe, originalImageHash, newImage.hash, fillIndex);
             }
-            const targetX = state.right + state.gap;
-
-            if ('x' in duplicated) (duplicated as any).x = targetX;
-            if ('y' in duplicated) (duplicated as any).y = state.y;
             // Ensure it stays in same parent
-            if (node.parent) {
-              node.parent.appendChild(duplicated);
+            if (fillNode.parent) {
+              fillNode.parent.appendChild(duplicated);
             }
-            // Update chain state to the end of the new duplicate
-            const dupRight = ('x' in duplicated && 'width' in duplicated) ? (duplicated as any).x + (duplicated as any).width : targetX + baseWidth;
-            chainState[originId] = { right: dupRight, y: state.y, gap: state.gap, parentId, anchorX: state.anchorX, anchorY: state.anchorY };
+            placeInCopyChain(fillNode, duplicated, copyLayout);
             // Do NOT change selection to the new copy to avoid triggering heavy
             // selection-updated pipeline on the UI side (prevents lag spikes)
           }
         }
-        figma.notify('Displacement effect applied successfully!');
-        figma.ui.postMessage({ type: 'apply-success' });
+        if (recipe) {
+          // Remembered for the "Re-apply last effect" menu command; a full storage must not fail the apply
+          await pluginStorage.setAsync(LAST_RECIPE_STORAGE_KEY, recipe).catch((error) => {
+            console.warn('⚠️ Could not remember the last recipe:', error);
+          });
+        }
+        if (!isBatchItem) {
+          figma.notify('Displacement effect applied successfully!');
+        }
+        postToUi({ type: 'apply-success', nodeId: msg.nodeId, requestId: msg.requestId });
       } catch (error) {
         console.error('Error creating image:', error);
+        // Batch failures are collected into a single summary on the UI side
+        const notify = (message: string) => {
+          if (!isBatchItem) figma.notify(message);
+        };
         
         // Provide specific error messages for common issues
         let errorMessage = 'Failed to apply effect';
         if (error instanceof Error) {
           if (error.message.includes('Image is too large')) {
             errorMessage = 'Image is too large for Figma (max 4096px). The effect was downscaled but may need further size reduction.';
-            figma.notify(errorMessage);
+            notify(errorMessage);
           } else if (error.message.includes('Image is too small')) {
             errorMessage = 'Generated image is too small';
-            figma.notify(errorMessage);
+            notify(errorMessage);
           } else if (error.message.includes('Image type is unsupported')) {
             errorMessage = 'Generated image format is not supported';
-            figma.notify(errorMessage);
+            notify(errorMessage);
           } else {
-            figma.notify(`${errorMessage}: ${error.message}`);
+            notify(`${errorMessage}: ${error.message}`);
+            if (isBatchItem) errorMessage = error.message;
           }
         } else {
-          figma.notify(errorMessage);
+          notify(errorMessage);
         }
         
-        figma.ui.postMessage({ 
+        postToUi({ 
           type: 'apply-error', 
-          error: errorMessage 
+          error: errorMessage,
+          nodeId: msg.nodeId,
+          requestId: msg.requestId
         });
-        throw error; // Re-throw to be caught by withErrorHandling
       }
     }),
 
+    // Result larger than Figma's image limit, rendered by the UI in tiles
+    'apply-tiled-result': withErrorHandling(async (msg) => {
+      // Re-renders target a node by id and are reported back individually (no per-node notify)
+      const isBatchItem = msg.nodeId !== undefined;
+      try {
+        const selection = figma.currentPage.selection;
+        const source = isBatchItem
+          ? await getSceneNode(msg.nodeId!)
+          : selection.length === 1 ? resolveNestedTarget(selection[0]) : null;
+        const mode: ApplyMode = msg.mode ?? 'modify';
+        await insertTiledResult(source && getSourceKind(source) ? source : null, msg, {
+          mode,
+          recipe: msg.recipe,
+          fillIndex: msg.fillIndex,
+          fillLayer: mode === 'fill' ? parseFillLayerOptions(msg.fillLayer) : null,
+          copyLayout: parseCopyLayout(msg.copyLayout),
+          copyName: msg.copyName?.trim() || undefined
+        });
+        if (msg.recipe) {
+          await pluginStorage.setAsync(LAST_RECIPE_STORAGE_KEY, msg.recipe).catch((error) => {
+            console.warn('⚠️ Could not remember the last recipe:', error);
+          });
+        }
+        if (!isBatchItem) {
+          figma.notify(`Displacement effect applied as ${msg.tiles.length} tiles`);
+        }
+        postToUi({ type: 'apply-success', nodeId: msg.nodeId, requestId: msg.requestId });
+      } catch (error) {
+        // Reported here only: rethrowing would make withErrorHandling notify a second time
+        console.error('Error inserting tiled result:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (!isBatchItem) {
+          figma.notify(`Failed to apply effect: ${errorMessage}`);
+        }
+        postToUi({ type: 'apply-error', error: errorMessage, nodeId: msg.nodeId, requestId: msg.requestId });
+      }
+    }),
+
+    // Hidden UI finished its render job (menu commands)
+    'headless-finished': withErrorHandling(async (msg) => {
+      if (msg.error) {
+        figma.closePlugin(msg.error);
+        return;
+      }
+      const failed = msg.failed > 0 ? `, ${msg.failed} failed` : '';
+      figma.closePlugin(`Re-applied Displace effect to ${msg.applied} ${msg.applied === 1 ? 'layer' : 'layers'}${failed}`);
+    }),
+
+    // Manifest presets as loaded by the UI, for quick action suggestions
+    'cache-preset-index': withErrorHandling(async (msg) => {
+      await pluginStorage.setAsync(PRESET_INDEX_STORAGE_KEY, msg.presets);
+    }),
+
+    'get-favourites': withErrorHandling(async (msg) => {
+      postToUi({ type: 'favourites-result', favourites: await loadFavourites(), requestId: msg.requestId });
+    }),
+
+    'save-favourite': withErrorHandling(async (msg) => {
+      const current = await loadFavourites();
+      const favourites = [msg.favourite, ...current.filter((f) => f.id !== msg.favourite.id)].slice(0, MAX_FAVOURITES);
+      await pluginStorage.setAsync(FAVOURITES_STORAGE_KEY, favourites);
+      postToUi({ type: 'favourites-result', favourites, requestId: msg.requestId });
+    }),
+
+    'delete-favourite': withErrorHandling(async (msg) => {
+      const favourites = (await loadFavourites()).filter((f) => f.id !== msg.favouriteId);
+      await pluginStorage.setAsync(FAVOURITES_STORAGE_KEY, favourites);
+      postToUi({ type: 'favourites-result', favourites, requestId: msg.requestId });
+    }),
+
     'save-custom-preset': withErrorHandling(async (msg) => {
       const { preset } = msg;
-      await figma.clientStorage.setAsync(`custom_preset_${preset.id}`, preset);
-      const currentIds = await figma.clientStorage.getAsync('custom_presets_list') || [];
+      await pluginStorage.ensureRoom(await measureCustomPresetGrowth(pluginStorage, await pluginStorage.getSizes(), preset));
+      await saveCustomPreset(pluginStorage, preset);
+      postToUi({ type: 'custom-preset-saved', preset, requestId: msg.requestId });
+    }),
+
+    'delete-custom-preset': withErrorHandling(async (msg) => {
+      const { presetId } = msg;
+      await deleteCustomPreset(pluginStorage, presetId);
+      postToUi({ type: 'custom-preset-deleted', presetId, requestId: msg.requestId });
+    }),
+
+    'save-file-preset': withErrorHandling(async (msg) => {
+      const { preset } = msg;
+      const presetData = JSON.stringify(preset);
+      if (presetData.length > MAX_FILE_PRESET_SIZE) {
+        throw new Error(`"${preset.name}" is too large to store in the file (${Math.round(presetData.length / 1024)} KB, limit ${MAX_FILE_PRESET_SIZE / 1024} KB)`);
+      }
+      figma.root.setSharedPluginData(FILE_PRESETS_NAMESPACE, `${FILE_PRESET_KEY_PREFIX}${preset.id}`, presetData);
+      const currentIds = readFilePresetIds();
       if (!currentIds.includes(preset.id)) {
         currentIds.push(preset.id);
-        await figma.clientStorage.setAsync('custom_presets_list', currentIds);
+        figma.root.setSharedPluginData(FILE_PRESETS_NAMESPACE, FILE_PRESETS_LIST_KEY, JSON.stringify(currentIds));
       }
-      figma.ui.postMessage({ type: 'custom-preset-saved', preset });
+      postToUi({ type: 'file-preset-saved', preset, requestId: msg.requestId });
+      loadAndSendFilePresets();
     }),
 
-    'delete-custom-preset': withErrorHandling(async (msg) => {
+    'delete-file-preset': withErrorHandling(async (msg) => {
       const { presetId } = msg;
-      await figma.clientStorage.deleteAsync(`custom_preset_${presetId}`);
-      const currentIds = await figma.clientStorage.getAsync('custom_presets_list') || [];
-      const filteredIds = currentIds.filter((id: string) => id !== presetId);
-      await figma.clientStorage.setAsync('custom_presets_list', filteredIds);
-      figma.ui.postMessage({ type: 'custom-preset-deleted', presetId });
+      figma.root.setSharedPluginData(FILE_PRESETS_NAMESPACE, `${FILE_PRESET_KEY_PREFIX}${presetId}`, '');
+      const filteredIds = readFilePresetIds().filter((id) => id !== presetId);
+      figma.root.setSharedPluginData(FILE_PRESETS_NAMESPACE, FILE_PRESETS_LIST_KEY, JSON.stringify(filteredIds));
+      postToUi({ type: 'file-preset-deleted', presetId, requestId: msg.requestId });
+      loadAndSendFilePresets();
     }),
 
-    'get-storage-usage': withErrorHandling(async () => {
-      const keys = await figma.clientStorage.keysAsync();
-      let totalSize = 0;
-      for (const key of keys) {
-        const value = await figma.clientStorage.getAsync(key);
-        totalSize += new TextEncoder().encode(JSON.stringify(value)).length;
-      }
-      const totalLimit = 5 * 1024 * 1024; // 5MB
-      figma.ui.postMessage({
+    'get-storage-usage': withErrorHandling(async (msg) => {
+      const sizes = await pluginStorage.getSizes();
+      const used = await pluginStorage.getUsedBytes();
+      postToUi({
         type: 'storage-usage-result',
         usage: {
-          used: totalSize,
-          total: totalLimit,
-          percentage: (totalSize / totalLimit) * 100
-        }
+          used,
+          total: pluginStorage.limit,
+          percentage: (used / pluginStorage.limit) * 100,
+          presets: await measureCustomPresets(pluginStorage, sizes)
+        },
+        requestId: msg.requestId
       });
     })
   };
 
-  // Handle messages from the UI
-  figma.ui.onmessage = async (msg) => {
-    const handler = messageHandlers[msg.type];
-    if (handler) {
-      await handler(msg);
+  // Handle messages from the UI; anything outside the protocol is rejected with a reason
+  figma.ui.onmessage = async (raw) => {
+    let msg: UiToPluginMessage;
+    try {
+      msg = parseUiMessage(raw);
+    } catch (error) {
+      console.error('❌ Rejected UI message:', error);
+      const requestId = raw && typeof raw.requestId === 'string' ? raw.requestId : undefined;
+      postToUi({ type: 'protocol-error', error: String(error), requestId });
+      return;
     }
+    const handler = messageHandlers[msg.type] as (msg: UiToPluginMessage) => Promise<void>;
+    await handler(msg);
   };
 
   // Initial processing of selection
-  await processSelectedImage();
+  if (!headlessJob) {
+    await processSelectedImage();
+  }
 }
 
-main(); 
\ No newline at end of file
+// Parameter suggestions are requested before "run" while the user types in quick actions
+figma.parameters.on('input', onParameterInput);
+figma.on('run', ({ command, parameters }) => main((command || 'open') as PluginCommand, parameters));
@@ -0,0 +1,28 @@
+/**
+ * String Hashing
+ *
+ * cyrb53: a fast, well-distributed 53-bit string hash. Not cryptographic; used to give
+ * stored content a stable address so identical data is written once.
+ *
+ * @module Hash
+ */
+
+export function cyrb53(input: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/** Content address of a string: hash and length, both base 36 */
+export function contentKey(input: string): string {
+  return `${cyrb53(input).toString(36)}_${input.length.toString(36)}`;
+}
@@ -0,0 +1,227 @@
+/**
+ * Custom Preset Storage
+ *
+ * Custom presets in figma.clientStorage. The preset record (`custom_preset_<id>`, listed
+ * in `custom_presets_list`) keeps only settings; every inline data URL map is moved to a
+ * content-addressed blob split across `preset_blob_<address>:<n>` chunk keys, so large
+ * or multi-layer maps stay under the per-key size limit and presets that use the same
+ * map share one copy. Blobs no longer referenced by any preset are removed on delete
+ * and overwrite. Records written before chunking (inline data URLs) still load as-is.
+ *
+ * @module PresetStorage
+ */
+
+import { contentKey } from './hash';
+import { measureStoredValue } from './storageQuota';
+import type { CustomPreset, PresetStorageSize } from '../ui/types';
+
+export type PresetStorageBackend = Pick<ClientStorageAPI, 'getAsync' | 'setAsync' | 'deleteAsync' | 'keysAsync'>;
+
+export const CUSTOM_PRESETS_LIST_KEY = 'custom_presets_list';
+const PRESET_KEY_PREFIX = 'custom_preset_';
+const BLOB_KEY_PREFIX = 'preset_blob_';
+// Layer `src` of a stored record that points at a blob instead of holding the data URL
+const BLOB_REF_PREFIX = 'blob-ref:';
+// Characters per chunk key
+const BLOB_CHUNK_SIZE = 256 * 1024;
+
+interface StoredBlob {
+  length: number;
+  chunks: number;
+}
+
+export async function loadCustomPresets(storage: PresetStorageBackend): Promise<CustomPreset[]> {
+  const presets: CustomPreset[] = [];
+  for (const id of await loadPresetIds(storage)) {
+    const record: CustomPreset | undefined = await storage.getAsync(`${PRESET_KEY_PREFIX}${id}`);
+    if (!record) continue;
+    try {
+      const layers = [];
+      for (const layer of record.layers) {
+        layers.push(isBlobRef(layer.src) ? { ...layer, src: await readBlob(storage, layer.src.slice(BLOB_REF_PREFIX.length)) } : layer);
+      }
+      presets.push({ ...record, layers });
+    } catch (error) {
+      console.warn(`⚠️ Skipping custom preset ${id}:`, error);
+    }
+  }
+  return presets.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveCustomPreset(storage: PresetStorageBackend, preset: CustomPreset): Promise<void> {
+  const key = `${PRESET_KEY_PREFIX}${preset.id}`;
+  const replaced = (await storage.getAsync(key)) !== undefined;
+  try {
+    const layers = [];
+    for (const layer of preset.layers) {
+      layers.push(layer.src.startsWith('data:') ? { ...layer, src: `${BLOB_REF_PREFIX}${await writeBlob(storage, layer.src)}` } : layer);
+    }
+    await storage.setAsync(key, { ...preset, layers });
+  } catch (error) {
+    // A failed write (e.g. over quota) must not leave the blobs written so far behind
+    await removeOrphanedBlobs(storage);
+    throw error;
+  }
+
+  const ids = await loadPresetIds(storage);
+  if (!ids.includes(preset.id)) {
+    ids.push(preset.id);
+    await storage.setAsync(CUSTOM_PRESETS_LIST_KEY, ids);
+  }
+  if (replaced) {
+    await removeOrphanedBlobs(storage);
+  }
+}
+
+/**
+ * Bytes saving `preset` adds to storage, from per-key sizes (see SizedStorage.getSizes):
+ * its chunked record minus the record it overwrites, plus the blobs whose address is not
+ * stored yet (dedupe makes the others free). Maps the overwritten record no longer uses
+ * are only freed after the write, so they are not subtracted.
+ */
+export async function measureCustomPresetGrowth(
+  storage: PresetStorageBackend,
+  sizes: Record<string, number>,
+  preset: CustomPreset
+): Promise<number> {
+  const key = `${PRESET_KEY_PREFIX}${preset.id}`;
+  let growth = 0;
+  const layers = [];
+  const counted = new Set<string>();
+  for (const layer of preset.layers) {
+    if (!layer.src.startsWith('data:')) {
+      layers.push(layer);
+      continue;
+    }
+    const address = contentKey(layer.src);
+    layers.push({ ...layer, src: `${BLOB_REF_PREFIX}${address}` });
+    if (counted.has(address) || `${BLOB_KEY_PREFIX}${address}` in sizes) continue;
+    counted.add(address);
+    const chunks = Math.ceil(layer.src.length / BLOB_CHUNK_SIZE);
+    for (let i = 0; i < chunks; i++) {
+      growth += measureStoredValue(layer.src.slice(i * BLOB_CHUNK_SIZE, (i + 1) * BLOB_CHUNK_SIZE));
+    }
+    const blob: StoredBlob = { length: layer.src.length, chunks };
+    growth += measureStoredValue(blob);
+  }
+  growth += measureStoredValue({ ...preset, layers }) - (sizes[key] ?? 0);
+
+  const ids = await loadPresetIds(storage);
+  if (!ids.includes(preset.id)) {
+    growth += measureStoredValue([...ids, preset.id]) - (sizes[CUSTOM_PRESETS_LIST_KEY] ?? 0);
+  }
+  return growth;
+}
+
+export async function deleteCustomPreset(storage: PresetStorageBackend, presetId: string): Promise<void> {
+  await storage.deleteAsync(`${PRESET_KEY_PREFIX}${presetId}`);
+  const ids = (await loadPresetIds(storage)).filter((id) => id !== presetId);
+  await storage.setAsync(CUSTOM_PRESETS_LIST_KEY, ids);
+  await removeOrphanedBlobs(storage);
+}
+
+/**
+ * Bytes each custom preset occupies, from per-key sizes (see SizedStorage.getSizes).
+ * `bytes` is what deleting the preset frees: its record plus maps no other preset uses;
+ * `sharedBytes` counts maps it shares with other presets.
+ */
+export async function measureCustomPresets(
+  storage: PresetStorageBackend,
+  sizes: Record<string, number>
+): Promise<PresetStorageSize[]> {
+  const blobBytes = new Map<string, number>();
+  for (const [key, size] of Object.entries(sizes)) {
+    if (!key.startsWith(BLOB_KEY_PREFIX)) continue;
+    const address = key.slice(BLOB_KEY_PREFIX.length).split(':')[0];
+    blobBytes.set(address, (blobBytes.get(address) ?? 0) + size);
+  }
+
+  const records: CustomPreset[] = [];
+  const users = new Map<string, number>();
+  for (const id of await loadPresetIds(storage)) {
+    const record: CustomPreset | undefined = await storage.getAsync(`${PRESET_KEY_PREFIX}${id}`);
+    if (!record) continue;
+    records.push(record);
+    new Set(blobAddresses(record)).forEach((address) => users.set(address, (users.get(address) ?? 0) + 1));
+  }
+
+  return records
+    .map((record) => {
+      let bytes = sizes[`${PRESET_KEY_PREFIX}${record.id}`] ?? 0;
+      let sharedBytes = 0;
+      new Set(blobAddresses(record)).forEach((address) => {
+        const size = blobBytes.get(address) ?? 0;
+        if ((users.get(address) ?? 0) > 1) {
+          sharedBytes += size;
+        } else {
+          bytes += size;
+        }
+      });
+      return { id: record.id, name: record.name, bytes, sharedBytes };
+    })
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+async function loadPresetIds(storage: PresetStorageBackend): Promise<string[]> {
+  return await storage.getAsync(CUSTOM_PRESETS_LIST_KEY) || [];
+}
+
+function isBlobRef(src: string): boolean {
+  return src.startsWith(BLOB_REF_PREFIX);
+}
+
+function blobAddresses(record: CustomPreset): string[] {
+  return record.layers.filter((layer) => isBlobRef(layer.src)).map((layer) => layer.src.slice(BLOB_REF_PREFIX.length));
+}
+
+// Chunks are written before the blob header, so a header always points at complete data
+async function writeBlob(storage: PresetStorageBackend, data: string): Promise<string> {
+  const address = contentKey(data);
+  const existing: StoredBlob | undefined = await storage.getAsync(`${BLOB_KEY_PREFIX}${address}`);
+  if (existing && existing.length === data.length) {
+    return address;
+  }
+  const chunks = Math.ceil(data.length / BLOB_CHUNK_SIZE);
+  for (let i = 0; i < chunks; i++) {
+    await storage.setAsync(`${BLOB_KEY_PREFIX}${address}:${i}`, data.slice(i * BLOB_CHUNK_SIZE, (i + 1) * BLOB_CHUNK_SIZE));
+  }
+  const blob: StoredBlob = { length: data.length, chunks };
+  await storage.setAsync(`${BLOB_KEY_PREFIX}${address}`, blob);
+  return address;
+}
+
+async function readBlob(storage: PresetStorageBackend, address: string): Promise<string> {
+  const blob: StoredBlob | undefined = await storage.getAsync(`${BLOB_KEY_PREFIX}${address}`);
+  if (!blob) {
+    throw new Error(`Map data ${address} is missing`);
+  }
+  const parts: string[] = [];
+  for (let i = 0; i < blob.chunks; i++) {
+    const part = await storage.getAsync(`${BLOB_KEY_PREFIX}${address}:${i}`);
+    if (typeof part !== 'string') {
+      throw new Error(`Map data ${address} is missing chunk ${i + 1} of ${blob.chunks}`);
+    }
+    parts.push(part);
+  }
+  const data = parts.join('');
+  if (data.length !== blob.length) {
+    throw new Error(`Map data ${address} is incomplete`);
+  }
+  return data;
+}
+
+// Deletes blob headers and chunks that no stored preset points at
+async function removeOrphanedBlobs(storage: PresetStorageBackend): Promise<void> {
+  const referenced = new Set<string>();
+  for (const id of await loadPresetIds(storage)) {
+    const record: CustomPreset | undefined = await storage.getAsync(`${PRESET_KEY_PREFIX}${id}`);
+    if (record) blobAddresses(record).forEach((address) => referenced.add(address));
+  }
+  for (const key of await storage.keysAsync()) {
+    if (!key.startsWith(BLOB_KEY_PREFIX)) continue;
+    const address = key.slice(BLOB_KEY_PREFIX.length).split(':')[0];
+    if (!referenced.has(address)) {
+      await storage.deleteAsync(key);
+    }
+  }
+}
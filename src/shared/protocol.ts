@@ -0,0 +1,352 @@
+/**
+ * Plugin Message Protocol
+ *
+ * Every message exchanged between the plugin backend (code.ts) and the UI iframe,
+ * as two discriminated unions keyed by `type`. Both sides check incoming messages
+ * at runtime with `parseUiMessage` / `parsePluginMessage`, which throw a
+ * ProtocolError naming the unknown type or the malformed field.
+ *
+ * Requests may carry a `requestId`. The backend echoes it on the response and on
+ * the `${type}-error` message of a failed handler, so FigmaService can match
+ * replies to requests even when several of the same type are in flight.
+ *
+ * @module Protocol
+ */
+
+import type {
+  ApplyMode,
+  BatchSkippedNode,
+  BatchTarget,
+  CopyLayout,
+  CustomPreset,
+  FilePreset,
+  FillLayerOptions,
+  ImageCrop,
+  ImageUse,
+  ImageUseScope,
+  NestedTarget,
+  RecipeNodeInfo,
+  SelectionUpdatedMessage,
+  StorageUsage
+} from '../ui/types';
+import { isEffectSettings, isPresetLayer } from './recipe';
+import type { FavouriteRecipe, RecipePayload } from './recipe';
+import type { PresetIndexEntry } from './quickApply';
+
+interface Envelope {
+  requestId?: string;
+}
+
+/** Render job for a menu command that runs with a hidden UI */
+export interface HeadlessJob {
+  recipe: RecipePayload;
+  targets: BatchTarget[];
+}
+
+export interface ApplyDisplacementRequest extends Envelope {
+  type: 'apply-displacement-result';
+  imageBytes: Uint8Array;
+  /** Set for batch items; otherwise the current selection is used */
+  nodeId?: string;
+  mode?: ApplyMode;
+  recipe?: RecipePayload;
+  fillIndex?: number;
+  fillLayer?: FillLayerOptions;
+  copyLayout?: CopyLayout;
+  copyName?: string;
+}
+
+/** Tile of a result larger than Figma's image limit, in rendered pixels */
+export interface ResultTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageBytes: Uint8Array;
+}
+
+/**
+ * Result rendered in tiles; applied to the current selection (or `nodeId`, for re-renders) as a
+ * frame of image rectangles carrying the recipe
+ */
+export interface ApplyTiledRequest extends Envelope {
+  type: 'apply-tiled-result';
+  nodeId?: string;
+  width: number;
+  height: number;
+  tiles: ResultTile[];
+  mode?: ApplyMode;
+  recipe?: RecipePayload;
+  fillIndex?: number;
+  fillLayer?: FillLayerOptions;
+  copyLayout?: CopyLayout;
+  copyName?: string;
+}
+
+/** Messages sent by the UI to the plugin backend */
+export type UiToPluginMessage = Envelope & (
+  | { type: 'ui-ready' }
+  | { type: 'refresh-selection' }
+  | { type: 'select-image-fill'; fillIndex: number }
+  | { type: 'select-nested-image'; target: NestedTarget }
+  | { type: 'revert-displacement' }
+  | { type: 'scan-recipes' }
+  | { type: 'set-auto-rerender'; enabled: boolean }
+  | { type: 'set-tiled-export'; enabled: boolean }
+  | { type: 'select-nodes'; nodeIds: string[] }
+  | { type: 'revert-nodes'; nodeIds: string[] }
+  | { type: 'get-batch-targets' }
+  | { type: 'get-node-image'; nodeId: string }
+  | { type: 'find-image-uses'; scope: ImageUseScope }
+  | { type: 'apply-to-image-uses'; imageBytes: Uint8Array; imageHash: string; nodeIds: string[]; recipe?: RecipePayload }
+  | { type: 'batch-finished'; applied: number; failed: number; cancelled: boolean }
+  | ApplyDisplacementRequest
+  | ApplyTiledRequest
+  | { type: 'save-custom-preset'; preset: CustomPreset }
+  | { type: 'delete-custom-preset'; presetId: string }
+  | { type: 'save-file-preset'; preset: FilePreset }
+  | { type: 'delete-file-preset'; presetId: string }
+  | { type: 'get-storage-usage' }
+  | { type: 'get-favourites' }
+  | { type: 'save-favourite'; favourite: FavouriteRecipe }
+  | { type: 'delete-favourite'; favouriteId: string }
+  /** `error` is set when the job could not run at all; the plugin closes with it */
+  | { type: 'headless-finished'; applied: number; failed: number; error?: string }
+  | { type: 'cache-preset-index'; presets: PresetIndexEntry[] }
+);
+
+export type UiMessageType = UiToPluginMessage['type'];
+
+/** Sent when a backend handler throws; `type` is the request type with an `-error` suffix */
+export interface HandlerErrorMessage extends Envelope {
+  type: `${UiMessageType}-error`;
+  error: string;
+}
+
+/** Messages sent by the plugin backend to the UI */
+export type PluginToUiMessage = Envelope & (
+  | ({ type: 'selection-updated' } & SelectionUpdatedMessage)
+  | { type: 'selection-cleared' }
+  | { type: 'unsupported-node'; reason: string }
+  | { type: 'error'; message: string }
+  /** Persisted export options; sent on ui-ready and after each change */
+  | { type: 'export-settings'; tiledExport: boolean }
+  | { type: 'custom-presets-loaded'; presets: CustomPreset[] }
+  | { type: 'custom-presets-load-error'; error: string }
+  /** Team presets stored in the document; re-sent after every change */
+  | { type: 'file-presets-loaded'; presets: FilePreset[] }
+  | { type: 'revert-result'; reverted: number; withoutRecipe: number }
+  | { type: 'recipe-nodes'; nodes: RecipeNodeInfo[] }
+  | { type: 'nodes-selected'; selected: number }
+  /** Recipe layers whose source image was swapped since the effect was applied */
+  | { type: 'stale-nodes'; nodes: RecipeNodeInfo[]; autoRerender: boolean }
+  | { type: 'batch-targets'; targets: BatchTarget[]; skipped: BatchSkippedNode[] }
+  | { type: 'node-image'; nodeId: string; imageBytes: Uint8Array; fillIndex: number | null; crop: ImageCrop | null; tiled?: boolean }
+  | { type: 'image-uses-progress'; scanned: number; total: number; found: number }
+  | { type: 'image-uses-result'; imageHash: string; uses: ImageUse[] }
+  | { type: 'image-uses-applied'; replaced: number; failed: number }
+  | { type: 'apply-success'; nodeId?: string }
+  | { type: 'apply-error'; error: string; nodeId?: string }
+  | { type: 'custom-preset-saved'; preset: CustomPreset }
+  | { type: 'custom-preset-deleted'; presetId: string }
+  | { type: 'file-preset-saved'; preset: FilePreset }
+  | { type: 'file-preset-deleted'; presetId: string }
+  | { type: 'storage-usage-result'; usage: StorageUsage }
+  | { type: 'favourites-result'; favourites: FavouriteRecipe[] }
+  /** Launched from "Apply favourite preset…": let the user pick one */
+  | { type: 'show-favourites' }
+  | ({ type: 'headless-job' } & HeadlessJob)
+  /** The backend rejected a message it could not parse */
+  | { type: 'protocol-error'; error: string }
+  | HandlerErrorMessage
+);
+
+export type PluginMessageType = PluginToUiMessage['type'];
+
+export type UiMessageOf<K extends UiMessageType> = Extract<UiToPluginMessage, { type: K }>;
+
+export type PluginMessageOf<K extends PluginMessageType> = K extends HandlerErrorMessage['type']
+  ? HandlerErrorMessage
+  : Extract<PluginToUiMessage, { type: K }>;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// --- Runtime validation ---
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isBytes: FieldCheck = (value) => value instanceof Uint8Array;
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isObject: FieldCheck = isRecord;
+const isArray: FieldCheck = (value) => Array.isArray(value);
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value);
+const nullable = (check: FieldCheck): FieldCheck => (value) => value === null || check(value);
+const oneOf = (...values: string[]): FieldCheck => (value) => typeof value === 'string' && values.includes(value);
+
+export const isRecipePayload = (value: unknown): value is RecipePayload =>
+  isRecord(value) &&
+  nullable(isString)(value.presetId) &&
+  Array.isArray(value.layers) && value.layers.every(isPresetLayer) &&
+  isEffectSettings(value.settings);
+
+export const isFavourite = (value: unknown): value is FavouriteRecipe =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isRecipePayload(value.recipe);
+
+const isPreset: FieldCheck = (value) =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isArray(value.layers);
+
+export const isPresetIndexEntry = (value: unknown): value is PresetIndexEntry =>
+  isRecord(value) &&
+  isString(value.id) && isString(value.name) && isString(value.category) &&
+  isArray(value.layers) &&
+  isNumber(value.defaultStrength) && isNumber(value.defaultScale);
+
+const isTile: FieldCheck = (value) =>
+  isRecord(value) &&
+  ['x', 'y', 'width', 'height'].every((key) => isNumber(value[key])) &&
+  isBytes(value.imageBytes);
+
+type FieldSchema = Record<string, FieldCheck>;
+
+const UI_MESSAGE_SCHEMAS: Record<UiMessageType, FieldSchema> = {
+  'ui-ready': {},
+  'refresh-selection': {},
+  'select-image-fill': { fillIndex: isNumber },
+  'select-nested-image': { target: nullable(isString) },
+  'revert-displacement': {},
+  'scan-recipes': {},
+  'set-auto-rerender': { enabled: isBoolean },
+  'set-tiled-export': { enabled: isBoolean },
+  'select-nodes': { nodeIds: isArray },
+  'revert-nodes': { nodeIds: isArray },
+  'get-batch-targets': {},
+  'get-node-image': { nodeId: isString },
+  'find-image-uses': { scope: oneOf('page', 'document') },
+  'apply-to-image-uses': {
+    imageBytes: isBytes,
+    imageHash: isString,
+    nodeIds: isArray,
+    recipe: optional(isRecipePayload)
+  },
+  'batch-finished': { applied: isNumber, failed: isNumber, cancelled: isBoolean },
+  'apply-displacement-result': {
+    imageBytes: isBytes,
+    nodeId: optional(isString),
+    mode: optional(oneOf('modify', 'copy', 'fill')),
+    recipe: optional(isRecipePayload),
+    fillIndex: optional(isNumber),
+    fillLayer: optional(isObject),
+    copyLayout: optional(isObject),
+    copyName: optional(isString)
+  },
+  'apply-tiled-result': {
+    nodeId: optional(isString),
+    width: isNumber,
+    height: isNumber,
+    tiles: (value) => Array.isArray(value) && value.every(isTile),
+    mode: optional(oneOf('modify', 'copy', 'fill')),
+    recipe: optional(isRecipePayload),
+    fillIndex: optional(isNumber),
+    fillLayer: optional(isObject),
+    copyLayout: optional(isObject),
+    copyName: optional(isString)
+  },
+  'save-custom-preset': { preset: isPreset },
+  'delete-custom-preset': { presetId: isString },
+  'save-file-preset': { preset: isPreset },
+  'delete-file-preset': { presetId: isString },
+  'get-storage-usage': {},
+  'get-favourites': {},
+  'save-favourite': { favourite: isFavourite },
+  'delete-favourite': { favouriteId: isString },
+  'headless-finished': { applied: isNumber, failed: isNumber, error: optional(isString) },
+  'cache-preset-index': { presets: (value) => Array.isArray(value) && value.every(isPresetIndexEntry) }
+};
+
+const PLUGIN_MESSAGE_SCHEMAS: Record<Exclude<PluginMessageType, HandlerErrorMessage['type']>, FieldSchema> = {
+  'selection-updated': {
+    imageBytes: isBytes,
+    recipe: optional(nullable(isObject)),
+    sourceKind: optional(oneOf('fill', 'raster')),
+    fillIndex: optional(nullable(isNumber)),
+    crop: optional(nullable(isObject)),
+    imageFills: optional(isArray),
+    batchCount: optional(isNumber),
+    nestedImages: optional(isArray),
+    nestedTarget: optional(nullable(isString))
+  },
+  'selection-cleared': {},
+  'unsupported-node': { reason: isString },
+  'error': { message: isString },
+  'export-settings': { tiledExport: isBoolean },
+  'custom-presets-loaded': { presets: isArray },
+  'custom-presets-load-error': { error: isString },
+  'file-presets-loaded': { presets: isArray },
+  'revert-result': { reverted: isNumber, withoutRecipe: isNumber },
+  'recipe-nodes': { nodes: isArray },
+  'nodes-selected': { selected: isNumber },
+  'stale-nodes': { nodes: isArray, autoRerender: isBoolean },
+  'batch-targets': { targets: isArray, skipped: isArray },
+  'node-image': { nodeId: isString, imageBytes: isBytes, fillIndex: nullable(isNumber), crop: nullable(isObject), tiled: optional(isBoolean) },
+  'image-uses-progress': { scanned: isNumber, total: isNumber, found: isNumber },
+  'image-uses-result': { imageHash: isString, uses: isArray },
+  'image-uses-applied': { replaced: isNumber, failed: isNumber },
+  'apply-success': { nodeId: optional(isString) },
+  'apply-error': { error: isString, nodeId: optional(isString) },
+  'custom-preset-saved': { preset: isPreset },
+  'custom-preset-deleted': { presetId: isString },
+  'file-preset-saved': { preset: isPreset },
+  'file-preset-deleted': { presetId: isString },
+  'storage-usage-result': { usage: isObject },
+  'favourites-result': { favourites: isArray },
+  'show-favourites': {},
+  'headless-job': { recipe: isRecipePayload, targets: isArray },
+  'protocol-error': { error: isString }
+};
+
+function validate(raw: unknown, schemas: Record<string, FieldSchema>, errorTypes: boolean): { type: string } {
+  if (!isRecord(raw) || typeof raw.type !== 'string') {
+    throw new ProtocolError('Message without a type');
+  }
+  const message = raw as Record<string, unknown> & { type: string };
+  if (!optional(isString)(message.requestId)) {
+    throw new ProtocolError(`Malformed "${message.type}" message: invalid requestId`);
+  }
+
+  let schema = schemas[message.type];
+  if (!schema && errorTypes && message.type.endsWith('-error')) {
+    const requestType = message.type.slice(0, -'-error'.length);
+    if (requestType in UI_MESSAGE_SCHEMAS) {
+      schema = { error: isString };
+    }
+  }
+  if (!schema) {
+    throw new ProtocolError(`Unknown message type "${message.type}"`);
+  }
+
+  for (const [field, check] of Object.entries(schema)) {
+    if (!check(message[field])) {
+      throw new ProtocolError(`Malformed "${message.type}" message: invalid field "${field}"`);
+    }
+  }
+  return message;
+}
+
+/** Validates a message received by the backend. Throws ProtocolError. */
+export function parseUiMessage(raw: unknown): UiToPluginMessage {
+  return validate(raw, UI_MESSAGE_SCHEMAS, false) as UiToPluginMessage;
+}
+
+/** Validates a message received by the UI. Throws ProtocolError. */
+export function parsePluginMessage(raw: unknown): PluginToUiMessage {
+  return validate(raw, PLUGIN_MESSAGE_SCHEMAS, true) as PluginToUiMessage;
+}
@@ -0,0 +1,47 @@
+/**
+ * Quick Apply Parameters
+ *
+ * Parameters of the "Apply preset…" quick action: `Displace › preset › strength › scale`.
+ * The backend cannot read the preset manifest the UI loads, so the UI caches a compact
+ * index of it in clientStorage whenever the manifest loads. Preset suggestions come from
+ * that index plus the user's custom presets.
+ *
+ * @module QuickApply
+ */
+
+import type { PresetLayer } from '../ui/presets/types';
+
+export const PRESET_INDEX_STORAGE_KEY = 'preset_index';
+
+/** Manifest preset as cached for the quick action */
+export interface PresetIndexEntry {
+  id: string;
+  name: string;
+  category: string;
+  layers: PresetLayer[];
+  defaultStrength: number;
+  defaultScale: number;
+  premium?: boolean;
+}
+
+export interface NumericRange {
+  label: string;
+  min: number;
+  max: number;
+}
+
+// Same bounds as the Strength and Scale sliders
+export const STRENGTH_RANGE: NumericRange = { label: 'Strength', min: -400, max: 400 };
+export const SCALE_RANGE: NumericRange = { label: 'Scale', min: 2, max: 150 };
+
+/** Returns why a typed value is not accepted, or null when it is in range */
+export function checkRangeInput(input: string, range: NumericRange): string | null {
+  const value = Number(input.trim());
+  if (input.trim() === '' || !Number.isFinite(value)) {
+    return `${range.label} must be a number`;
+  }
+  if (value < range.min || value > range.max) {
+    return `${range.label} must be between ${range.min} and ${range.max}`;
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Displace Recipe
+ *
+ * Non-destructive description of an applied effect, stored on the node with
+ * setPluginData. The backend writes it when a result replaces an image fill and
+ * reads it back on selection; the UI builds it from the active preset and slider
+ * values and restores its controls from it.
+ *
+ * Recipes are versioned so older plugin data keeps loading after the format grows.
+ *
+ * @module Recipe
+ */
+
+import type { PresetLayer } from '../ui/presets/types';
+import type { DisplacementChannel, EffectSettings } from '../ui/types';
+
+export const RECIPE_PLUGIN_DATA_KEY = 'displace_recipe';
+export const RECIPE_VERSION = 1;
+
+export interface DisplaceRecipe {
+  version: number;
+  /** Image hash of the fill before any Displace effect was applied */
+  originalImageHash: string;
+  /** Image hash written by the last apply; a mismatch means the fill was changed elsewhere */
+  resultImageHash: string;
+  /** Index in `fills` of the image fill the effect was applied to (absent in older recipes) */
+  fillIndex?: number;
+  /** Result was added as a separate fill above the source fill instead of replacing it */
+  addedFill?: boolean;
+  /** Result is a frame of image tiles (tiled export); `resultImageHash` is its first tile */
+  tiled?: boolean;
+  /** Source layer hidden under a tiled result applied in modify mode, shown again on revert */
+  hiddenSourceId?: string;
+  presetId: string | null;
+  /**
+   * Layer stack at apply time. Left empty for custom presets: their maps are inline
+   * data URLs kept in clientStorage, so they are looked up by presetId instead.
+   */
+  layers: PresetLayer[];
+  settings: EffectSettings;
+  appliedAt: number;
+}
+
+/** Part of the recipe provided by the UI with every apply */
+export type RecipePayload = Pick<DisplaceRecipe, 'presetId' | 'layers' | 'settings'>;
+
+/** Recipe saved by the user for the "Apply favourite preset…" command */
+export interface FavouriteRecipe {
+  id: string;
+  name: string;
+  recipe: RecipePayload;
+  createdAt: number;
+}
+
+/** clientStorage keys for quick re-apply from the plugin menu */
+export const LAST_RECIPE_STORAGE_KEY = 'last_recipe';
+export const FAVOURITES_STORAGE_KEY = 'favourite_recipes';
+export const MAX_FAVOURITES = 20;
+
+/** clientStorage key of the "Auto-refresh stale effects" opt-in */
+export const AUTO_RERENDER_STORAGE_KEY = 'auto_rerender_stale';
+
+/** clientStorage key of the "Full-resolution export (tiled)" opt-in */
+export const TILED_EXPORT_STORAGE_KEY = 'tiled_export';
+
+const SETTING_KEYS: (keyof EffectSettings)[] = [
+  'strength', 'scale', 'soft', 'chromatic', 'blur', 'noise', 'reflectOpacity', 'reflectSharpness'
+];
+
+/** Settings absent from recipes written before they existed */
+const OPTIONAL_SETTING_KEYS: (keyof EffectSettings)[] = ['strengthX', 'strengthY'];
+const CHANNEL_SETTING_KEYS: (keyof EffectSettings)[] = ['xChannel', 'yChannel'];
+
+export function isDisplacementChannel(value: unknown): value is DisplacementChannel {
+  return value === 'R' || value === 'G' || value === 'B' || value === 'A';
+}
+
+/**
+ * Largest map layer skew in degrees either way. Past it the pattern shears towards a line
+ * (90° is degenerate) and its tiles grow without bound.
+ */
+export const MAX_LAYER_SKEW = 60;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isOneOf = (...values: string[]) => (value: unknown) => typeof value === 'string' && values.includes(value);
+
+/**
+ * Says what is wrong with a map layer from stored or pasted data, or returns null when every
+ * field is valid. Where the layer image comes from is up to the caller.
+ */
+export function checkPresetLayer(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'a map layer is not an object';
+  const layer = value as Record<string, unknown>;
+  if (typeof layer.src !== 'string') return 'a map has no image';
+  if (!isOneOf('tiled', 'stretched')(layer.tiling)) return 'unknown map tiling';
+  if (!isOptional(layer.scale, (v) => isFiniteNumber(v) && (v as number) > 0)) return 'invalid map scale';
+  if (!isOptional(layer.scaleMode, isOneOf('uniform', 'xOnly', 'yOnly'))) return 'unknown map scale mode';
+  if (![layer.xChannel, layer.yChannel].every((c) => isOptional(c, isDisplacementChannel))) return 'unknown map channel';
+  if (!isOptional(layer.opacity, (v) => isFiniteNumber(v) && (v as number) >= 0 && (v as number) <= 1)) {
+    return 'invalid map opacity';
+  }
+  if (!isOptional(layer.blendMode, (v) => typeof v === 'string')) return 'invalid map blend mode';
+  if (!isOptional(layer.alignX, isOneOf('left', 'center', 'right')) ||
+    !isOptional(layer.alignY, isOneOf('top', 'center', 'bottom'))) {
+    return 'unknown map alignment';
+  }
+  if (![layer.offsetX, layer.offsetY].every((v) => isOptional(v, isFiniteNumber))) return 'invalid map offset';
+  if (![layer.rotation, layer.skewX, layer.skewY].every((v) => isOptional(v, isFiniteNumber)) ||
+    ![layer.flipX, layer.flipY].every((v) => isOptional(v, (flip) => typeof flip === 'boolean'))) {
+    return 'invalid map orientation';
+  }
+  if ([layer.skewX, layer.skewY].some((skew) => typeof skew === 'number' && Math.abs(skew) > MAX_LAYER_SKEW)) {
+    return `map skew is past ±${MAX_LAYER_SKEW}°`;
+  }
+  return null;
+}
+
+export function isPresetLayer(value: unknown): value is PresetLayer {
+  return checkPresetLayer(value) === null;
+}
+
+/** True when every effect setting is present and valid (optional ones may be absent) */
+export function isEffectSettings(value: unknown): value is EffectSettings {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as Record<string, unknown>;
+  return SETTING_KEYS.every((key) => typeof settings[key] === 'number')
+    && OPTIONAL_SETTING_KEYS.every((key) => settings[key] === undefined || typeof settings[key] === 'number')
+    && CHANNEL_SETTING_KEYS.every((key) => settings[key] === undefined || isDisplacementChannel(settings[key]));
+}
+
+export function serializeRecipe(recipe: DisplaceRecipe): string {
+  return JSON.stringify(recipe);
+}
+
+/**
+ * Parses plugin data into a recipe. Returns null for empty, malformed or
+ * newer-than-supported data so callers can fall back to the plain image.
+ */
+export function parseRecipe(raw: string): DisplaceRecipe | null {
+  if (!raw) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const data = parsed as Record<string, unknown>;
+  if (typeof data.version !== 'number' || data.version > RECIPE_VERSION) return null;
+  if (typeof data.originalImageHash !== 'string' || typeof data.resultImageHash !== 'string') return null;
+  if (!isEffectSettings(data.settings)) return null;
+  if (data.layers !== undefined && !(Array.isArray(data.layers) && data.layers.every(isPresetLayer))) return null;
+
+  return {
+    version: data.version,
+    originalImageHash: data.originalImageHash,
+    resultImageHash: data.resultImageHash,
+    fillIndex: typeof data.fillIndex === 'number' ? data.fillIndex : undefined,
+    addedFill: data.addedFill === true ? true : undefined,
+    tiled: data.tiled === true ? true : undefined,
+    hiddenSourceId: typeof data.hiddenSourceId === 'string' ? data.hiddenSourceId : undefined,
+    presetId: typeof data.presetId === 'string' ? data.presetId : null,
+    layers: data.layers ?? [],
+    settings: data.settings,
+    appliedAt: typeof data.appliedAt === 'number' ? data.appliedAt : 0
+  };
+}
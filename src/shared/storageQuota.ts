@@ -0,0 +1,107 @@
+/**
+ * Storage Quota
+ *
+ * figma.clientStorage wrapper that keeps the JSON size of every key in a size index
+ * (`storage_size_index`), updated on each write and delete, so usage is one read
+ * instead of reading every value. Writes that would take usage past the limit are
+ * refused with a StorageQuotaError before anything is stored. The index is built
+ * once by a full scan when it is missing (first run, or data written before it existed).
+ *
+ * @module StorageQuota
+ */
+
+import type { PresetStorageBackend } from './presetStorage';
+
+export const STORAGE_SIZE_INDEX_KEY = 'storage_size_index';
+
+type SizeIndex = Record<string, number>;
+
+export class StorageQuotaError extends Error {
+  constructor(public readonly needed: number, public readonly available: number, limit: number) {
+    super(
+      `Not enough plugin storage: this needs ${formatBytes(needed)} but only ${formatBytes(Math.max(0, available))} ` +
+      `of ${formatBytes(limit)} is free. Delete custom presets you no longer use (Storage… in the apply menu).`
+    );
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/** UTF-8 size of a value as stored (JSON) */
+export function measureStoredValue(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export class SizedStorage implements PresetStorageBackend {
+  constructor(private storage: PresetStorageBackend, readonly limit: number) {}
+
+  getAsync(key: string): Promise<unknown> {
+    return this.storage.getAsync(key);
+  }
+
+  async keysAsync(): Promise<string[]> {
+    return (await this.storage.keysAsync()).filter((key) => key !== STORAGE_SIZE_INDEX_KEY);
+  }
+
+  async setAsync(key: string, value: unknown): Promise<void> {
+    const index = await this.loadIndex();
+    const size = measureStoredValue(value);
+    checkRoom(index, size - (index[key] ?? 0), this.limit);
+    await this.storage.setAsync(key, value);
+    index[key] = size;
+    await this.storage.setAsync(STORAGE_SIZE_INDEX_KEY, index);
+  }
+
+  async deleteAsync(key: string): Promise<void> {
+    await this.storage.deleteAsync(key);
+    const index = await this.loadIndex();
+    if (key in index) {
+      delete index[key];
+      await this.storage.setAsync(STORAGE_SIZE_INDEX_KEY, index);
+    }
+  }
+
+  /** Refuses up front a write spread over several keys that would not fit as a whole */
+  async ensureRoom(bytes: number): Promise<void> {
+    checkRoom(await this.loadIndex(), bytes, this.limit);
+  }
+
+  /** Stored size per key, from the index */
+  async getSizes(): Promise<SizeIndex> {
+    return { ...await this.loadIndex() };
+  }
+
+  /** Total bytes in use, the index itself included */
+  async getUsedBytes(): Promise<number> {
+    return usedBytes(await this.loadIndex());
+  }
+
+  private async loadIndex(): Promise<SizeIndex> {
+    const index: SizeIndex | undefined = await this.storage.getAsync(STORAGE_SIZE_INDEX_KEY);
+    if (index) {
+      return index;
+    }
+    const rebuilt: SizeIndex = {};
+    for (const key of await this.keysAsync()) {
+      rebuilt[key] = measureStoredValue(await this.storage.getAsync(key));
+    }
+    await this.storage.setAsync(STORAGE_SIZE_INDEX_KEY, rebuilt);
+    return rebuilt;
+  }
+}
+
+function checkRoom(index: SizeIndex, growth: number, limit: number): void {
+  const available = limit - usedBytes(index);
+  if (growth > 0 && growth > available) {
+    throw new StorageQuotaError(growth, available, limit);
+  }
+}
+
+function usedBytes(index: SizeIndex): number {
+  return Object.values(index).reduce((sum, size) => sum + size, measureStoredValue(index));
+}
@@ -19,24 +19,59 @@
  * @class App
  */
 
-import type { Preset } from "./presets";
+import type { Preset, PresetLayer } from "./presets";
+import { presetService } from "./presets";
+import { customPresetsManager } from "./customPresets";
+import { filePresetsManager } from "./filePresets";
+import { downloadPresetPack, parsePresetPack } from "./presetPacks";
+import { decodeRecipeCode, encodeRecipeCode, RecipeCodeError } from "./utils/recipeCode";
+import { buildMapSourceFromLayers } from "./utils/maps";
 import { initDisplacementEngine, DisplacementEngine } from "./engine";
 import { initTabs } from './components/Tabs';
-import { initPresetGallery, PresetSelectedEvent, MapSelectedEvent, refreshPresetGallery } from "./components/PresetGallery";
+import { initPresetGallery, PresetSelectedEvent, MapSelectedEvent, refreshPresetGallery, reloadPresetGallery } from "./components/PresetGallery";
 import { initControls, SliderInstance } from "./components/Controls";
 import { generateRandomizedValues } from "./randomizer";
 import { setupModal } from "./utils/modal";
 import { requireElement } from "./utils/dom";
-import { initializeServices, figmaService, licenseService } from "./services";
+import { initializeServices, figmaService, licenseService, resourceManager } from "./services";
 import { APP_CONFIG } from './config/constants';
 import { createElement, replaceContent } from "./utils/dom";
 import { initDevTools } from "./components/DevTools";
+import { BatchProgress } from "./components/BatchProgress";
+import { FillPicker } from "./components/FillPicker";
+import { NestedImagePicker } from "./components/NestedImagePicker";
+import { FavouritesPanel } from "./components/FavouritesPanel";
+import { StoragePanel } from "./components/StoragePanel";
+import { RecipeCodePanel } from "./components/RecipeCodePanel";
+import { ImageUsesPanel } from "./components/ImageUsesPanel";
+import { Inspector } from "./components/Inspector";
+import { StaleBadge } from "./components/StaleBadge";
+import { cropImageBytes, compositeCropResult } from "./utils/image";
+import type {
+  ApplyMode,
+  BatchFailure,
+  CopyLayout,
+  DisplacementChannel,
+  EffectSettings,
+  FillLayerOptions,
+  ImageCrop,
+  ImageUse,
+  ImageUseScope,
+  PresetStorageSize,
+  RecipeNodeInfo,
+  SelectionUpdatedMessage
+} from "./types";
+import type { FavouriteRecipe, RecipePayload } from "../shared/recipe";
+import type { HeadlessJob } from "../shared/protocol";
+import type { RenderedTiles } from "./engine/types";
 import paywallHTML from './components/paywall.html?raw';
 import copycodeHTML from './components/copycode.html?raw';
 import copycodeFreeHTML from './components/copycode-free.html?raw';
 
 type ControlsMap = {
   strength: SliderInstance;
+  strengthX: SliderInstance;
+  strengthY: SliderInstance;
   scale: SliderInstance;
   soft: SliderInstance;
   chromatic: SliderInstance;
@@ -44,6 +79,12 @@ type ControlsMap = {
   noise: SliderInstance;
   reflectOpacity: SliderInstance;
   reflectSharpness: SliderInstance;
+  // Linked (null) or separate horizontal/vertical strength
+  setStrengthAxes: (axes: { x: number; y: number } | null) => void;
+  getStrengthAxes: () => { x: number; y: number } | null;
+  // Map channels driving X / Y displacement
+  setChannels: (xChannel: DisplacementChannel, yChannel: DisplacementChannel) => void;
+  getChannels: () => { xChannel: DisplacementChannel; yChannel: DisplacementChannel };
   // Batch control methods
   setBatchMode: (enabled: boolean) => void;
   updateAllVisuals: () => void;
@@ -54,6 +95,8 @@ export class App {
   private sliders: ControlsMap | null = null;
   private hasSelectedImage = false;
   private selectedPreset: Preset | null = null;
+  // Map currently loaded in the engine, as recorded in node recipes (null for one-off uploaded maps)
+  private activeMap: { presetId: string | null; layers: PresetLayer[] } | null = null;
   private copyCodeModal: { showModal: () => void; hideModal: () => void; } | undefined;
   private copyCodeFreeModal: { showModal: () => void; hideModal: () => void; } | undefined;
   private unsubscribeLicense: (() => void) | null = null;
@@ -81,11 +124,44 @@ export class App {
   private controlsContainer: HTMLElement;
   private applyChevronButton: HTMLButtonElement;
   private applyMenu: HTMLElement;
-  private applyMode: 'modify' | 'copy' = 'modify';
+  private applyMode: ApplyMode = 'modify';
+  private fillBlendSelect: HTMLSelectElement;
+  private fillOpacityInput: HTMLInputElement;
+  private copyLayoutSelect: HTMLSelectElement;
+  private copyColumnsInput: HTMLInputElement;
   private applySplitContainer: HTMLElement;
   private isApplying = false;
   private iconContainer: HTMLElement | null = null;
 
+  // Batch apply state (multi-node selection)
+  private batchProgress: BatchProgress;
+  private batchCount = 1;
+  private isBatchRunning = false;
+  private isBatchCancelled = false;
+
+  // Image fill being processed; CROP fills are rendered over their visible region only
+  private fillPicker: FillPicker;
+  // Image-filled descendants of a selected frame or group
+  private nestedPicker: NestedImagePicker;
+  private sourceFill: { fillIndex: number | null; crop: ImageCrop | null; fullBytes: Uint8Array } | null = null;
+
+  private favouritesPanel: FavouritesPanel;
+  private storagePanel: StoragePanel;
+  private recipeCodePanel: RecipeCodePanel;
+
+  // "Apply to all uses of this image": last scan result
+  private imageUsesPanel: ImageUsesPanel;
+  private imageUses: { imageHash: string; uses: ImageUse[] } | null = null;
+
+  private inspector: Inspector;
+
+  // Recipe layers whose source image was swapped (reported by the backend)
+  private staleBadge: StaleBadge;
+  private staleNodes: RecipeNodeInfo[] = [];
+  private autoRerender = false;
+  // Results over Figma's image limit are applied as tiles instead of downscaled (persisted by the backend)
+  private tiledExport = false;
+
   constructor() {
     // Initialize services first (they provide infrastructure)
     initializeServices();
@@ -109,6 +185,10 @@ export class App {
     this.applyChevronButton = requireElement<HTMLButtonElement>("#applyChevron");
     this.applyMenu = requireElement<HTMLElement>("#applyMenu");
     this.applySplitContainer = requireElement<HTMLElement>("#applySplitContainer");
+    this.fillBlendSelect = requireElement<HTMLSelectElement>("#applyFillBlend");
+    this.fillOpacityInput = requireElement<HTMLInputElement>("#applyFillOpacity");
+    this.copyLayoutSelect = requireElement<HTMLSelectElement>("#applyCopyLayout");
+    this.copyColumnsInput = requireElement<HTMLInputElement>("#applyCopyColumns");
     this.upgradeButton = requireElement<HTMLButtonElement>("#upgradeToPro");
     this.randomButton = requireElement<HTMLButtonElement>("#randomize");
     this.copyCodeButton = requireElement<HTMLButtonElement>("#copyCode");
@@ -131,6 +211,49 @@ export class App {
       throw new Error("Failed to initialize displacement engine");
     }
 
+    this.batchProgress = new BatchProgress(previewContainer.parentElement ?? previewContainer);
+    this.fillPicker = new FillPicker(
+      previewContainer.parentElement ?? previewContainer,
+      (fillIndex) => figmaService.selectImageFill(fillIndex)
+    );
+    this.nestedPicker = new NestedImagePicker(
+      previewContainer.parentElement ?? previewContainer,
+      (target) => figmaService.selectNestedImage(target)
+    );
+    this.imageUsesPanel = new ImageUsesPanel(previewContainer.parentElement ?? previewContainer, {
+      onScan: (scope) => this.scanImageUses(scope),
+      onReplace: () => this.replaceImageUses()
+    });
+    this.inspector = new Inspector(requireElement<HTMLElement>('#inspector-controls'), {
+      onScan: () => this.scanRecipeNodes(),
+      onSelect: (nodes) => this.selectRecipeNodes(nodes),
+      onRerender: async (nodes) => {
+        await this.rerenderRecipeNodes(nodes, 'latest');
+        this.scanRecipeNodes();
+      },
+      onChangePreset: async (nodes, presetId) => {
+        await this.rerenderRecipeNodes(nodes, presetId);
+        this.scanRecipeNodes();
+      },
+      onRevert: (nodes) => this.revertRecipeNodes(nodes)
+    });
+    this.staleBadge = new StaleBadge(
+      previewContainer.parentElement ?? previewContainer,
+      () => this.refreshStaleNodes()
+    );
+    this.favouritesPanel = new FavouritesPanel(previewContainer.parentElement ?? previewContainer, {
+      onApply: (favourite) => this.onApplyFavourite(favourite),
+      onDelete: (favourite) => this.onDeleteFavourite(favourite)
+    });
+    this.storagePanel = new StoragePanel(previewContainer.parentElement ?? previewContainer, {
+      onDelete: (preset) => this.onDeleteStoredPreset(preset),
+      onExport: (presetIds) => this.exportPresetPack(presetIds),
+      onImport: (file) => this.importPresetPack(file)
+    });
+    this.recipeCodePanel = new RecipeCodePanel(previewContainer.parentElement ?? previewContainer, {
+      onApply: (code) => this.pasteRecipeCode(code)
+    });
+
     // Initialize controls with engine reference and batch rendering check
     this.sliders = initControls(this.engine);
     if (!this.sliders) {
@@ -143,7 +266,7 @@ export class App {
     this.setupLicenseSubscription();
 
     // --- Initial state ---
-    this.showPreviewMessage('Select any image fill');
+    this.showPreviewMessage('Select any layer');
     this.setControlsEnabled(false);
   }
 
@@ -151,6 +274,11 @@ export class App {
     initTabs();
     if (this.sliders) {
       await initPresetGallery();
+      this.syncPresetIndex();
+      document.addEventListener('presets:updated', () => this.syncPresetIndex());
+      // The inspector lists the file's recipes each time its tab is opened
+      requireElement<HTMLButtonElement>('.tab-button[data-target="inspector-controls"]')
+        .addEventListener('click', () => this.scanRecipeNodes());
       this.randomButton.addEventListener("click", () => this.randomize());
       this.copyCodeButton.addEventListener("click", () => this.onCopyCode());
       
@@ -295,11 +423,17 @@ export class App {
     if (!this.sliders) return;
     const preset = e.detail.preset as Preset;
     this.selectedPreset = preset;
+    // Custom preset maps are inline data URLs; recipes reference them by id only
+    this.activeMap = { presetId: preset.id, layers: preset.isCustom ? [] : preset.layers };
     this.updateUIMode();
     // HUD: play disperse effect with preset name
     this.playDisperseText(preset.name);
     // No global scaleMode anymore; per-layer scaleMode handled by engine via MapSource
     this.sliders.strength.setValue(preset.defaultStrength);
+    const { defaultStrengthX, defaultStrengthY } = preset;
+    this.sliders.setStrengthAxes(
+      defaultStrengthX !== undefined && defaultStrengthY !== undefined ? { x: defaultStrengthX, y: defaultStrengthY } : null
+    );
     this.sliders.scale.setValue(preset.defaultScale);
   }
 
@@ -311,6 +445,10 @@ export class App {
       // Ignore stale map load from a previously clicked preset
       return;
     }
+    if (!map || !Array.isArray(map.layers)) {
+      // Uploaded file used without saving as a preset: nothing a recipe could point to
+      this.activeMap = null;
+    }
     this.engine.loadMap(map);
   }
 
@@ -644,7 +782,7 @@ export class App {
 
   // removed unused loadMapWithPromise
 
-  private updateSliders(values: { [key: string]: number }) {
+  private updateSliders(values: Partial<EffectSettings>) {
     console.log('🎚️ [SLIDERS] Starting updateSliders with values:', values);
     
     if (!this.sliders) {
@@ -652,11 +790,21 @@ export class App {
       return;
     }
     
+    // X/Y strength only exist together; without them strength is linked
+    const { strengthX, strengthY, xChannel, yChannel, ...sliderValues } = values;
+    this.sliders.setStrengthAxes(
+      typeof strengthX === 'number' && typeof strengthY === 'number' ? { x: strengthX, y: strengthY } : null
+    );
+    // Channels are left alone unless given (shuffles keep them)
+    if (xChannel || yChannel) {
+      this.sliders.setChannels(xChannel ?? 'R', yChannel ?? 'G');
+    }
+
     let updateCount = 0;
-    for (const key in values) {
+    for (const [key, value] of Object.entries(sliderValues)) {
       if (key in this.sliders) {
-        console.log(`🎚️ [SLIDERS] Updating ${key}: ${values[key]}`);
-        (this.sliders as any)[key].setValue(values[key]);
+        console.log(`🎚️ [SLIDERS] Updating ${key}: ${value}`);
+        (this.sliders as any)[key].setValue(value);
         updateCount++;
       } else {
         console.warn(`⚠️ [SLIDERS] Slider ${key} not found`);
@@ -683,8 +831,11 @@ export class App {
       const settingsContainer = document.getElementById('current-settings');
       if (settingsContainer) {
         // ✅ ПОСЛЕ: Безопасное создание настроек без innerHTML
+        const { strengthX, strengthY } = codeData.settings;
         const strengthDiv = createElement('div', {
-          textContent: `Strength: ${codeData.settings.strength}`
+          textContent: strengthX !== null || strengthY !== null
+            ? `Strength X / Y: ${strengthX ?? codeData.settings.strength} / ${strengthY ?? codeData.settings.strength}`
+            : `Strength: ${codeData.settings.strength}`
         });
         const chromaticDiv = createElement('div', {
           textContent: `Chromatic: ${codeData.settings.chromaticAberration}`
@@ -695,8 +846,11 @@ export class App {
         const softDiv = createElement('div', {
           textContent: `Soft: ${codeData.settings.soft}`
         });
+        const channelsDiv = createElement('div', {
+          textContent: `Channels X / Y: ${codeData.settings.xChannel} / ${codeData.settings.yChannel}`
+        });
         
-        replaceContent(settingsContainer, [strengthDiv, chromaticDiv, blurDiv, softDiv]);
+        replaceContent(settingsContainer, [strengthDiv, chromaticDiv, blurDiv, softDiv, channelsDiv]);
       }
 
       const textarea = document.getElementById('codeOutput') as HTMLTextAreaElement;
@@ -850,15 +1004,46 @@ export class App {
       return;
     }
 
+    if (this.batchCount > 1) {
+      await this.runBatchApply();
+      return;
+    }
+
     try {
       this.isApplying = true;
       this.applyButton.textContent = "Processing...";
       this.applyButton.disabled = true;
       
-      const imageBytes = await this.engine.getImageBytes();
+      // Crop renders are composited into a source that already fits Figma, so they never tile
+      const tiled = this.tiledExport && !this.sourceFill?.crop ? await this.engine.getImageTiles() : null;
+      if (tiled && tiled.tiles.length > 1) {
+        try {
+          await figmaService.applyTiledResult(tiled, {
+            mode: this.applyMode,
+            recipe: this.buildRecipePayload(),
+            fillIndex: this.sourceFill?.fillIndex,
+            fillLayer: this.getFillLayerOptions(),
+            copyLayout: this.getCopyLayout(),
+            copyName: this.getCopyName()
+          });
+        } catch (error) {
+          alert(`Figma failed to apply the effect: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        this.applyButton.textContent = this.getApplyLabel();
+        this.updateUIMode();
+        return;
+      }
+      const imageBytes = tiled ? tiled.tiles[0].imageBytes : await this.renderResultBytes(this.sourceFill);
       
       // Unified apply through FigmaService API
-      await figmaService.applyDisplacementEffect(imageBytes, { mode: this.applyMode });
+      await figmaService.applyDisplacementEffect(imageBytes, {
+        mode: this.applyMode,
+        recipe: this.buildRecipePayload(),
+        fillIndex: this.sourceFill?.fillIndex,
+        fillLayer: this.getFillLayerOptions(),
+        copyLayout: this.getCopyLayout(),
+        copyName: this.getCopyName()
+      });
       
     } catch (error) {
       console.error('Error applying effect:', error);
@@ -878,13 +1063,614 @@ export class App {
       
       alert(errorMessage);
       
-      this.applyButton.textContent = "Apply Effect";
+      this.applyButton.textContent = this.getApplyLabel();
       this.updateUIMode();
     } finally {
       this.isApplying = false;
     }
   }
 
+  /**
+   * Applies the current effect to every processable node of a multi-node selection.
+   * Each node's original image is rendered through the engine with the current settings
+   * and sent back one at a time, so the run can be cancelled between nodes.
+   */
+  private async runBatchApply() {
+    this.isApplying = true;
+    this.isBatchRunning = true;
+    this.isBatchCancelled = false;
+    this.applyButton.textContent = "Processing...";
+    this.applyButton.disabled = true;
+
+    const failures: BatchFailure[] = [];
+    const recipe = this.buildRecipePayload();
+    const fillLayer = this.getFillLayerOptions();
+    const copyLayout = this.getCopyLayout();
+    const copyName = this.getCopyName();
+    let applied = 0;
+    let total = 0;
+
+    try {
+      const { targets, skipped } = await figmaService.getBatchTargets();
+      skipped.forEach((node) => failures.push({ name: node.name, reason: this.describeUnsupportedReason(node.reason) }));
+      total = targets.length + skipped.length;
+
+      this.batchProgress.start(targets.length, () => { this.isBatchCancelled = true; });
+
+      for (let i = 0; i < targets.length; i++) {
+        if (this.isBatchCancelled) break;
+        const target = targets[i];
+        this.batchProgress.update(i, targets.length, target.name);
+        try {
+          await this.applyNodeResult(target.id, await this.renderNodeResult(target.id), {
+            mode: this.applyMode,
+            recipe,
+            fillLayer,
+            copyLayout,
+            copyName
+          });
+          applied++;
+        } catch (error) {
+          console.error(`Batch apply failed for ${target.name}:`, error);
+          failures.push({ name: target.name, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } catch (error) {
+      console.error('Batch apply failed:', error);
+      failures.push({ name: 'Selection', reason: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.batchProgress.finish({ applied, total, cancelled: this.isBatchCancelled, failures });
+      try {
+        figmaService.sendMessage('batch-finished', { applied, failed: failures.length, cancelled: this.isBatchCancelled });
+      } catch {}
+
+      this.isBatchRunning = false;
+      this.isApplying = false;
+      this.applyButton.textContent = this.getApplyLabel();
+      this.updateUIMode();
+
+      // The engine still holds the last batch item; reload whatever is selected now
+      try {
+        figmaService.sendMessage('refresh-selection');
+      } catch {}
+    }
+  }
+
+  /**
+   * Loads a node's original image into the engine and renders it with the current settings.
+   * `renderer: 'cpu'` uses the CPU reference renderer, which does not depend on the browser.
+   * Tiled results are rendered in tiles again (the CPU renderer has no tiled output), so a
+   * re-render keeps their resolution.
+   */
+  private async renderNodeResult(
+    nodeId: string,
+    renderer: 'svg' | 'cpu' = 'svg'
+  ): Promise<{ result: Uint8Array | RenderedTiles; fillIndex: number | null }> {
+    const source = await figmaService.getNodeImage(nodeId);
+    await this.engine.loadSourceFromBytes(
+      source.crop ? await cropImageBytes(source.imageBytes, source.crop) : source.imageBytes
+    );
+    this.engine.forceRedraw();
+    const result = source.tiled
+      ? await this.engine.getImageTiles()
+      : await this.renderResultBytes({ crop: source.crop, fullBytes: source.imageBytes }, renderer);
+    return { result, fillIndex: source.fillIndex };
+  }
+
+  /** Sends a render of renderNodeResult back to its node and waits for Figma to confirm */
+  private async applyNodeResult(
+    nodeId: string,
+    rendered: { result: Uint8Array | RenderedTiles; fillIndex: number | null },
+    options: { mode: ApplyMode; recipe: RecipePayload; fillLayer?: FillLayerOptions; copyLayout?: CopyLayout; copyName?: string }
+  ) {
+    const { result, fillIndex } = rendered;
+    if (result instanceof Uint8Array) {
+      await figmaService.applyDisplacementToNode(result, nodeId, { ...options, fillIndex });
+    } else {
+      await figmaService.applyTiledResult(result, { ...options, fillIndex }, nodeId);
+    }
+  }
+
+  /**
+   * Render job of a menu command ("Re-apply last effect", "Apply preset…"), run while the
+   * UI is hidden. Restores the recipe, applies it to every target in place and reports back
+   * so the plugin can close.
+   */
+  private async runHeadlessJob(job: HeadlessJob) {
+    let applied = 0;
+    let failed = 0;
+    let error: string | undefined;
+    try {
+      if (!await this.restoreFromRecipe(job.recipe)) {
+        error = 'The preset map is no longer available';
+        return;
+      }
+      if (this.selectedPreset && !licenseService.canApplyPreset(this.selectedPreset)) {
+        error = `${this.selectedPreset.name} is a Pro preset. Open Displace to upgrade`;
+        return;
+      }
+      for (const target of job.targets) {
+        try {
+          await this.applyNodeResult(target.id, await this.renderNodeResult(target.id, 'cpu'), { mode: 'modify', recipe: job.recipe });
+          applied++;
+        } catch (error) {
+          console.error(`Re-apply failed for ${target.name}:`, error);
+          failed++;
+        }
+      }
+    } catch (error) {
+      console.error('Re-apply failed:', error);
+      failed = job.targets.length - applied;
+    } finally {
+      figmaService.sendMessage('headless-finished', { applied, failed, error });
+    }
+  }
+
+  /** Hands the loaded manifest presets to the backend for quick action suggestions */
+  private async syncPresetIndex() {
+    try {
+      const presets = await presetService.getAllPresets();
+      figmaService.cachePresetIndex(
+        presets
+          .filter((preset) => !preset.isCustom)
+          .map(({ id, name, category, layers, defaultStrength, defaultScale, premium }) => ({
+            id, name, category, layers, defaultStrength, defaultScale, premium
+          }))
+      );
+    } catch (error) {
+      console.warn('Failed to cache preset index:', error);
+    }
+  }
+
+  private openImageUses() {
+    if (!this.hasSelectedImage || this.sourceFill?.fillIndex == null || this.batchCount > 1) {
+      this.flashHud('Select a single layer with an image fill', 1600);
+      return;
+    }
+    this.imageUsesPanel.show();
+  }
+
+  private async scanImageUses(scope: ImageUseScope) {
+    this.imageUses = null;
+    this.imageUsesPanel.scanStarted();
+    const unsubscribe = figmaService.onMessage('image-uses-progress', (message) => {
+      this.imageUsesPanel.scanProgress(message.scanned, message.total, message.found);
+    });
+    try {
+      this.imageUses = await figmaService.findImageUses(scope);
+      this.imageUsesPanel.scanFinished(this.imageUses.uses.length);
+    } catch (error) {
+      console.error('Error scanning for image uses:', error);
+      this.imageUsesPanel.showError(error instanceof Error ? error.message : String(error));
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /** Renders the whole image (not just a cropped region) and writes it into every scanned use */
+  private async replaceImageUses() {
+    if (!this.imageUses || !this.sourceFill || this.isApplying) return;
+    const { imageHash, uses } = this.imageUses;
+    const { crop, fullBytes } = this.sourceFill;
+
+    this.isApplying = true;
+    this.imageUsesPanel.replaceStarted();
+    try {
+      if (crop) {
+        await this.engine.loadSourceFromBytes(fullBytes);
+        this.engine.forceRedraw();
+      }
+      const imageBytes = await this.engine.getImageBytes();
+      const { replaced, failed } = await figmaService.applyToImageUses(
+        imageBytes,
+        imageHash,
+        uses.map((use) => use.nodeId),
+        this.buildRecipePayload()
+      );
+      this.imageUsesPanel.hide();
+      this.flashHud(`Replaced ${replaced}${failed > 0 ? `\n${failed} failed` : ''}`, 1600);
+    } catch (error) {
+      console.error('Error replacing image uses:', error);
+      this.imageUsesPanel.showError(error instanceof Error ? error.message : String(error));
+    } finally {
+      this.isApplying = false;
+      // The engine holds the uncropped image now; reload the selection as shown on canvas
+      if (crop) {
+        figmaService.sendMessage('refresh-selection');
+      }
+    }
+  }
+
+  private async getAllPresets(): Promise<Preset[]> {
+    return [
+      ...filePresetsManager.getFilePresets(),
+      ...await presetService.getAllPresets(),
+      ...customPresetsManager.getCustomPresets()
+    ];
+  }
+
+  private async scanRecipeNodes() {
+    this.inspector.setBusy(true, 'Scanning…');
+    try {
+      const presets = await this.getAllPresets();
+      this.inspector.setPresets(presets.map(({ id, name }) => ({ id, name })));
+      this.inspector.setNodes(await figmaService.scanRecipeNodes());
+      this.inspector.setBusy(false);
+    } catch (error) {
+      console.error('Error scanning for Displace layers:', error);
+      this.inspector.setBusy(false, 'Scan failed. Please try again.');
+    }
+  }
+
+  private async selectRecipeNodes(nodes: RecipeNodeInfo[]) {
+    try {
+      const selected = await figmaService.selectNodes(nodes.map((node) => node.nodeId));
+      if (selected < nodes.length) {
+        this.flashHud(`Selected ${selected} on one page`, 1600);
+      }
+    } catch (error) {
+      console.error('Error selecting layers:', error);
+      this.flashHud('Failed to select layers', 1600);
+    }
+  }
+
+  private async revertRecipeNodes(nodes: RecipeNodeInfo[]) {
+    if (this.isApplying) return;
+    try {
+      const { reverted } = await figmaService.revertNodes(nodes.map((node) => node.nodeId));
+      this.flashHud(`Reverted ${reverted}`, 1600);
+    } catch (error) {
+      console.error('Error reverting layers:', error);
+      alert(`Failed to revert: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    await this.scanRecipeNodes();
+  }
+
+  private async refreshStaleNodes() {
+    if (this.isApplying || this.staleNodes.length === 0) return;
+    this.staleBadge.update(this.staleNodes.length, true);
+    await this.rerenderRecipeNodes(this.staleNodes, 'recorded');
+    // The backend reports the remaining stale layers once the new fills land
+    this.staleBadge.update(this.staleNodes.length);
+  }
+
+  /**
+   * Re-renders recipe layers from their current source image with the map as recorded,
+   * the latest definition of their own preset, or another preset ("Change preset");
+   * settings stay as recorded. Runs through the batch overlay and puts the editor state
+   * back afterwards.
+   */
+  private async rerenderRecipeNodes(nodes: RecipeNodeInfo[], map: 'recorded' | 'latest' | string) {
+    if (this.isApplying) return;
+    this.isApplying = true;
+    this.isBatchRunning = true;
+    this.isBatchCancelled = false;
+
+    const previous = this.activeMap ? this.buildRecipePayload() : null;
+    const failures: BatchFailure[] = [];
+    let applied = 0;
+
+    try {
+      const presets = await this.getAllPresets();
+      this.batchProgress.start(nodes.length, () => { this.isBatchCancelled = true; });
+
+      for (let i = 0; i < nodes.length; i++) {
+        if (this.isBatchCancelled) break;
+        const node = nodes[i];
+        this.batchProgress.update(i, nodes.length, node.name);
+        try {
+          const { presetId, layers, settings } = node.recipe;
+          const targetId = map === 'recorded' || map === 'latest' ? presetId : map;
+          const preset = targetId ? presets.find((p) => p.id === targetId) : undefined;
+          if (targetId && !preset && (map !== 'recorded' || layers.length === 0)) {
+            throw new Error('Preset is no longer available');
+          }
+          if (preset && !licenseService.canApplyPreset(preset)) {
+            throw new Error(`${preset.name} is a Pro preset`);
+          }
+          // Uploaded maps (no preset) can only be re-rendered from the recorded layers
+          const recipe: RecipePayload = map === 'recorded' || !preset
+            ? { presetId, layers, settings }
+            : { presetId: preset.id, layers: preset.isCustom ? [] : preset.layers, settings };
+          if (!await this.restoreFromRecipe(recipe)) {
+            throw new Error('Map is no longer available');
+          }
+
+          await this.applyNodeResult(node.nodeId, await this.renderNodeResult(node.nodeId), {
+            mode: node.fillLayer ? 'fill' : 'modify',
+            recipe,
+            fillLayer: node.fillLayer ?? undefined
+          });
+          applied++;
+        } catch (error) {
+          console.error(`Re-render failed for ${node.name}:`, error);
+          failures.push({ name: node.name, reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      this.batchProgress.finish({ applied, total: nodes.length, cancelled: this.isBatchCancelled, failures });
+      this.isBatchRunning = false;
+      this.isApplying = false;
+
+      if (previous) {
+        await this.restoreFromRecipe(previous);
+      }
+      try {
+        figmaService.sendMessage('refresh-selection');
+      } catch {}
+    }
+  }
+
+  private async onSaveFavourite() {
+    if (!this.activeMap) {
+      this.flashHud('Pick a preset first', 1600);
+      return;
+    }
+    try {
+      await figmaService.saveFavourite({
+        id: `fav-${Date.now()}`,
+        name: this.getCopyName(),
+        recipe: this.buildRecipePayload(),
+        createdAt: Date.now()
+      });
+      this.flashHud('Saved to favourites', 1200);
+    } catch (error) {
+      console.error('Error saving favourite:', error);
+      alert(`Failed to save favourite: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async openFavourites() {
+    try {
+      this.favouritesPanel.show(await figmaService.getFavourites());
+    } catch (error) {
+      console.error('Error loading favourites:', error);
+      this.flashHud('Failed to load favourites', 1600);
+    }
+  }
+
+  private async openStorage() {
+    try {
+      this.storagePanel.show(await customPresetsManager.getStorageUsage());
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+      this.flashHud('Failed to load storage usage', 1600);
+    }
+  }
+
+  private async onDeleteStoredPreset(preset: PresetStorageSize) {
+    if (!confirm(`Delete the custom preset "${preset.name}"?`)) return;
+    try {
+      await customPresetsManager.deleteCustomPreset(preset.id);
+      this.storagePanel.update(await customPresetsManager.getStorageUsage());
+      await reloadPresetGallery();
+    } catch (error) {
+      console.error('Error deleting custom preset:', error);
+      this.flashHud('Failed to delete preset', 1600);
+    }
+  }
+
+  private exportPresetPack(presetIds: string[]) {
+    const pack = customPresetsManager.exportPack(presetIds.length > 0 ? presetIds : undefined);
+    downloadPresetPack(pack, pack.presets.length === 1 ? pack.presets[0].name : 'custom-presets');
+    this.storagePanel.showMessage(`Exported ${pack.presets.length} ${pack.presets.length === 1 ? 'preset' : 'presets'}`);
+  }
+
+  private async importPresetPack(file: File) {
+    try {
+      const report = await customPresetsManager.importPack(parsePresetPack(await file.text()));
+      const lines = [`Added ${report.added.length}, skipped ${report.skipped.length}`];
+      report.skipped.forEach(({ name, reason }) => lines.push(`${name}: ${reason}`));
+      this.storagePanel.showMessage(lines.join('\n'));
+      this.storagePanel.update(await customPresetsManager.getStorageUsage());
+      if (report.added.length > 0) {
+        await reloadPresetGallery();
+      }
+    } catch (error) {
+      console.error('Error importing preset pack:', error);
+      this.storagePanel.showMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /** Copies the current preset and sliders as a recipe code; custom maps are inlined */
+  private async copyRecipeCode() {
+    const layers = this.activeMap?.layers.length ? this.activeMap.layers : this.selectedPreset?.layers ?? [];
+    if (!this.activeMap || layers.length === 0) {
+      this.flashHud('Pick a preset first', 1600);
+      return;
+    }
+    try {
+      const code = await encodeRecipeCode({ presetId: this.activeMap.presetId, layers, settings: this.getEffectSettings() });
+      await navigator.clipboard.writeText(code).catch(() => {
+        // Clipboard API unavailable in the iframe: fall back to a selected textarea
+        const textarea = createElement('textarea', { attributes: { readonly: 'true' } });
+        textarea.value = code;
+        document.body.appendChild(textarea);
+        textarea.select();
+        document.execCommand('copy');
+        textarea.remove();
+      });
+      this.flashHud('Recipe code copied', 1200);
+    } catch (error) {
+      console.error('Error creating recipe code:', error);
+      this.flashHud('Failed to create recipe code', 1600);
+    }
+  }
+
+  /**
+   * Applies a pasted recipe code. Custom presets that exist here are referenced by id again;
+   * library maps are fetched first so a code pointing at maps this plugin cannot load is
+   * rejected with their names instead of falling back to a placeholder texture.
+   */
+  private async pasteRecipeCode(code: string) {
+    if (!this.hasSelectedImage) {
+      this.recipeCodePanel.showError('Select a layer with an image first');
+      return;
+    }
+    this.recipeCodePanel.setBusy(true);
+    try {
+      const recipe = await decodeRecipeCode(code);
+      const preset = recipe.presetId
+        ? (await this.getAllPresets()).find((p) => p.id === recipe.presetId) ?? null
+        : null;
+      if (preset?.isCustom) {
+        recipe.layers = [];
+      } else if (recipe.layers.length === 0) {
+        throw new RecipeCodeError(`The preset "${recipe.presetId}" is not available here and the code has no maps`);
+      }
+
+      const missing: string[] = [];
+      for (const { src } of recipe.layers) {
+        if (!src.startsWith('resource://')) continue;
+        try {
+          await resourceManager.loadResource(src.replace('resource://', ''));
+        } catch {
+          missing.push(src);
+        }
+      }
+      if (missing.length > 0) {
+        throw new RecipeCodeError(`Missing ${missing.length === 1 ? 'map' : 'maps'}:\n${missing.join('\n')}`);
+      }
+
+      await this.restoreFromRecipe(recipe);
+      this.recipeCodePanel.hide();
+      this.flashHud(preset ? preset.name : 'Recipe code applied', 1200);
+    } catch (error) {
+      if (!(error instanceof RecipeCodeError)) {
+        console.error('Error applying recipe code:', error);
+      }
+      this.recipeCodePanel.showError(error instanceof Error ? error.message : String(error));
+    } finally {
+      this.recipeCodePanel.setBusy(false);
+    }
+  }
+
+  private async onApplyFavourite(favourite: FavouriteRecipe) {
+    if (!this.hasSelectedImage) {
+      this.flashHud('Select a layer first', 1600);
+      return;
+    }
+    this.favouritesPanel.hide();
+    await this.restoreFromRecipe(favourite.recipe);
+    await this.onApply();
+  }
+
+  private async onDeleteFavourite(favourite: FavouriteRecipe) {
+    try {
+      this.favouritesPanel.update(await figmaService.deleteFavourite(favourite.id));
+    } catch (error) {
+      console.error('Error deleting favourite:', error);
+      this.flashHud('Failed to delete favourite', 1600);
+    }
+  }
+
+  /** Blend mode and opacity for "Add as fill layer"; undefined in the other modes */
+  private getFillLayerOptions(): FillLayerOptions | undefined {
+    if (this.applyMode !== 'fill') return undefined;
+    const opacity = Number(this.fillOpacityInput.value);
+    return {
+      blendMode: this.fillBlendSelect.value,
+      opacity: Number.isFinite(opacity) ? Math.min(Math.max(opacity, 0), 100) / 100 : 1
+    };
+  }
+
+  private getCopyLayout(): CopyLayout {
+    const columns = Math.round(Number(this.copyColumnsInput.value));
+    return {
+      direction: this.copyLayoutSelect.value as CopyLayout['direction'],
+      columns: Number.isFinite(columns) ? Math.min(Math.max(columns, 1), 20) : 3
+    };
+  }
+
+  /** Copy name from the preset and key settings, e.g. "Ribbed 04 · s80 · sc25" */
+  private getCopyName(): string {
+    const { strength, scale } = this.getEffectSettings();
+    const name = this.selectedPreset?.name ?? 'Displace';
+    return `${name} · s${Math.round(strength)} · sc${Math.round(scale)}`;
+  }
+
+  /** Renders the current effect; crop renders are pasted back into the full source image */
+  private async renderResultBytes(
+    source: { crop: ImageCrop | null; fullBytes: Uint8Array } | null,
+    renderer: 'svg' | 'cpu' = 'svg'
+  ): Promise<Uint8Array> {
+    const rendered = renderer === 'cpu' ? await this.engine.getCpuImageBytes() : await this.engine.getImageBytes();
+    return source?.crop ? compositeCropResult(source.fullBytes, rendered, source.crop) : rendered;
+  }
+
+  private getEffectSettings(): EffectSettings {
+    const sliders = this.sliders!;
+    const axes = sliders.getStrengthAxes();
+    const { xChannel, yChannel } = sliders.getChannels();
+    return {
+      strength: sliders.strength.getValue(),
+      ...(axes ? { strengthX: axes.x, strengthY: axes.y } : {}),
+      ...(xChannel !== 'R' || yChannel !== 'G' ? { xChannel, yChannel } : {}),
+      scale: sliders.scale.getValue(),
+      soft: sliders.soft.getValue(),
+      chromatic: sliders.chromatic.getValue(),
+      blur: sliders.blur.getValue(),
+      noise: sliders.noise.getValue(),
+      reflectOpacity: sliders.reflectOpacity.getValue(),
+      reflectSharpness: sliders.reflectSharpness.getValue(),
+    };
+  }
+
+  /** Recipe data sent with every apply so the node can be re-edited later */
+  private buildRecipePayload(): RecipePayload {
+    return {
+      presetId: this.activeMap?.presetId ?? null,
+      layers: this.activeMap?.layers ?? [],
+      settings: this.getEffectSettings(),
+    };
+  }
+
+  /**
+   * Restores preset, map and sliders from a recipe (node recipe or favourite). The engine
+   * already holds the original pixels at this point, so the preview re-renders the effect.
+   * Returns false when the map could not be restored.
+   */
+  private async restoreFromRecipe(recipe: RecipePayload): Promise<boolean> {
+    if (!this.sliders) return false;
+
+    let preset: Preset | null = null;
+    if (recipe.presetId) {
+      const presets = await this.getAllPresets();
+      preset = presets.find((p) => p.id === recipe.presetId) ?? null;
+    }
+    const layers = recipe.layers.length > 0 ? recipe.layers : preset?.layers ?? [];
+
+    this.selectedPreset = preset;
+    this.activeMap = { presetId: recipe.presetId, layers: recipe.layers };
+    if (preset) {
+      // Move the gallery selection ring without replaying preset defaults
+      document.dispatchEvent(new CustomEvent('preset:randomized', { detail: { presetName: preset.name } }));
+    }
+
+    if (layers.length > 0) {
+      await this.engine.loadMapAndWait(buildMapSourceFromLayers(layers));
+    } else {
+      this.flashHud('Original map is no longer available', 1600);
+    }
+    // Recipes without channels predate them and used R / G
+    this.updateSliders({ xChannel: 'R', yChannel: 'G', ...recipe.settings });
+    this.updateUIMode();
+    return layers.length > 0;
+  }
+
+  private getApplyLabel(): string {
+    return this.batchCount > 1 ? `Apply to ${this.batchCount} layers` : "Apply Effect";
+  }
+
+  private describeUnsupportedReason(reason: string): string {
+    if (reason === 'multiple') {
+      return "Please select a single layer.";
+    } else if (reason === 'not-rasterizable') {
+      return "The selected layer is hidden or has no visible size.";
+    }
+    return "This layer is not supported.";
+  }
+
   private setupApplySplitButton() {
     const openMenu = () => {
       this.applyMenu.classList.remove('hidden');
@@ -894,6 +1680,9 @@ export class App {
         const container = document.getElementById('applySplitContainer');
         if (container && !container.contains(target)) {
           closeMenu();
+        } else {
+          // Clicks on the fill options keep the menu open; keep listening for the outside click
+          document.addEventListener('click', onDocClick, { once: true });
         }
       };
       const onEsc = (e: KeyboardEvent) => {
@@ -919,22 +1708,87 @@ export class App {
       }
     });
 
-    const copyBtn = requireElement<HTMLButtonElement>('#applyOptionCopy');
-    const modifyBtn = requireElement<HTMLButtonElement>('#applyOptionModify');
+    const modeButtons: Record<ApplyMode, HTMLButtonElement> = {
+      modify: requireElement<HTMLButtonElement>('#applyOptionModify'),
+      copy: requireElement<HTMLButtonElement>('#applyOptionCopy'),
+      fill: requireElement<HTMLButtonElement>('#applyOptionFill'),
+    };
+    const fillOptions = requireElement<HTMLElement>('#applyFillOptions');
+    const copyOptions = requireElement<HTMLElement>('#applyCopyOptions');
 
-    const setModeOnly = (mode: 'copy' | 'modify') => {
+    const setModeOnly = (mode: ApplyMode) => {
       this.applyMode = mode;
       // Update visual selection with checkmarks
-      const isCopy = mode === 'copy';
-      copyBtn.classList.toggle('selected', isCopy);
-      copyBtn.setAttribute('aria-checked', String(isCopy));
-      modifyBtn.classList.toggle('selected', !isCopy);
-      modifyBtn.setAttribute('aria-checked', String(!isCopy));
-      this.applyMenu.classList.add('hidden');
+      (Object.keys(modeButtons) as ApplyMode[]).forEach((key) => {
+        modeButtons[key].classList.toggle('selected', key === mode);
+        modeButtons[key].setAttribute('aria-checked', String(key === mode));
+      });
+      // Mode options (blend/opacity, copy layout) stay reachable while their mode is active
+      fillOptions.classList.toggle('hidden', mode !== 'fill');
+      copyOptions.classList.toggle('hidden', mode !== 'copy');
+      if (mode === 'modify') {
+        this.applyMenu.classList.add('hidden');
+      }
     };
 
-    copyBtn.addEventListener('click', () => setModeOnly('copy'));
-    modifyBtn.addEventListener('click', () => setModeOnly('modify'));
+    this.copyLayoutSelect.addEventListener('change', () => {
+      this.copyColumnsInput.classList.toggle('hidden', this.copyLayoutSelect.value !== 'grid');
+    });
+
+    modeButtons.copy.addEventListener('click', () => setModeOnly('copy'));
+    modeButtons.modify.addEventListener('click', () => setModeOnly('modify'));
+    modeButtons.fill.addEventListener('click', () => setModeOnly('fill'));
+
+    const autoRefreshToggle = requireElement<HTMLButtonElement>('#applyToggleAutoRefresh');
+    autoRefreshToggle.addEventListener('click', () => {
+      figmaService.setAutoRerender(!this.autoRerender);
+    });
+    requireElement<HTMLButtonElement>('#applyToggleTiledExport').addEventListener('click', () => {
+      figmaService.setTiledExport(!this.tiledExport);
+    });
+
+    requireElement<HTMLButtonElement>('#applyActionImageUses').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.openImageUses();
+    });
+    requireElement<HTMLButtonElement>('#applyActionSaveFavourite').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.onSaveFavourite();
+    });
+    requireElement<HTMLButtonElement>('#applyActionFavourites').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.openFavourites();
+    });
+    requireElement<HTMLButtonElement>('#applyActionCopyRecipeCode').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.copyRecipeCode();
+    });
+    requireElement<HTMLButtonElement>('#applyActionPasteRecipeCode').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.recipeCodePanel.show();
+    });
+    requireElement<HTMLButtonElement>('#applyActionStorage').addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.openStorage();
+    });
+
+    const revertBtn = requireElement<HTMLButtonElement>('#applyActionRevert');
+    revertBtn.addEventListener('click', () => {
+      this.applyMenu.classList.add('hidden');
+      this.onRevert();
+    });
+  }
+
+  private async onRevert() {
+    if (this.isApplying) return;
+    try {
+      const { reverted, withoutRecipe } = await figmaService.revertDisplacement();
+      const skipped = withoutRecipe > 0 ? `\n${withoutRecipe} without effect` : '';
+      this.flashHud(`Reverted ${reverted}${skipped}`, 1600);
+    } catch (error) {
+      console.error('Error reverting effect:', error);
+      alert(`Failed to revert: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   /**
@@ -942,52 +1796,26 @@ export class App {
    */
   private setupFigmaMessageHandlers(): void {
     // Обработчик обновления выделения
-    figmaService.onMessage('selection-updated', async (message) => {
-      if (!this.engine) return;
-      try {
-        this.hidePreviewMessage();
-        this.setControlsEnabled(true);
-        
-        // The ImageLoader now handles spinner internally, no need to show message here
-        await this.engine.loadSourceFromBytes(message.imageBytes);
-        // After a new image is loaded, ask gallery to re-render thumbnails with live effect
-        try {
-          const evt = new CustomEvent('thumbnail:rerender');
-          document.dispatchEvent(evt);
-        } catch {}
-        
-        this.hasSelectedImage = true;
-        this.updateUIMode();
-      } catch (error) {
-        console.error('Error loading selected image:', error);
-        
-        // More specific error messages based on error type
-        let errorMessage = 'Error loading image. Please try again.';
-        if (error instanceof Error) {
-          if (error.message.includes('too large')) {
-            errorMessage = 'Image is too large. Please select a smaller image.';
-          } else if (error.message.includes('No image data')) {
-            errorMessage = 'No image data found. Please select a layer with an image fill.';
-          } else if (error.message.includes('Preview container')) {
-            errorMessage = 'Preview interface error. Please refresh the plugin.';
-          }
-        }
-        
-        this.showPreviewMessage(errorMessage);
-        this.hasSelectedImage = false;
-        this.setControlsEnabled(false);
-      }
+    // Batch apply drives the engine itself; selection is refreshed once the run is over
+    figmaService.onMessage('selection-updated', (message) => {
+      if (this.isBatchRunning) return;
+      this.onSelectionUpdated(message);
     });
 
     // Обработчик очистки выделения
     figmaService.onMessage('selection-cleared', () => {
-      if (!this.engine) return;
+      if (!this.engine || this.isBatchRunning) return;
       this.engine.clear();
       try {
         const evt = new CustomEvent('thumbnail:clear');
         document.dispatchEvent(evt);
       } catch {}
-      this.showPreviewMessage('Select any image fill', { icon: 'hint' });
+      this.showPreviewMessage('Select any layer', { icon: 'hint' });
+      this.sourceFill = null;
+      this.fillPicker.hide();
+      this.nestedPicker.hide();
+      this.batchCount = 1;
+      this.applyButton.textContent = this.getApplyLabel();
       this.hasSelectedImage = false;
       this.setControlsEnabled(false);
       this.updateUIMode();
@@ -995,43 +1823,125 @@ export class App {
 
     // Обработчик неподдерживаемых узлов
     figmaService.onMessage('unsupported-node', (message) => {
-      if (!this.engine) return;
+      if (!this.engine || this.isBatchRunning) return;
       this.engine.clear();
-      let reason = "This layer is not supported.";
-      if (message.reason === 'multiple') {
-        reason = "Please select a single layer.";
-      } else if (message.reason === 'vector') {
-        reason = "Please select a layer with an image fill, not a vector.";
-      } else if (message.reason === 'no-image-fill') {
-        reason = "The selected layer does not have an image fill.";
-      }
+      const reason = this.describeUnsupportedReason(message.reason);
       this.showPreviewMessage(reason, { icon: 'error' });
+      this.sourceFill = null;
+      this.fillPicker.hide();
+      this.nestedPicker.hide();
+      this.batchCount = 1;
+      this.applyButton.textContent = this.getApplyLabel();
       this.hasSelectedImage = false;
       this.setControlsEnabled(false);
       this.updateUIMode();
     });
 
     // Обработчик успешного применения эффекта
-    figmaService.onMessage('apply-success', () => {
-      this.applyButton.textContent = "Apply Effect";
+    figmaService.onMessage('apply-success', (message) => {
+      if (message.nodeId || message.requestId) return; // batch items and tiled results are awaited by the caller
+      this.applyButton.textContent = this.getApplyLabel();
       this.updateUIMode();
     });
 
     // Обработчик ошибки применения эффекта
     figmaService.onMessage('apply-error', (message) => {
+      if (message.nodeId || message.requestId) return; // reported in the batch summary or by the awaiting caller
       alert(`Figma failed to apply the effect: ${message.error}`);
-      this.applyButton.textContent = "Apply Effect";
+      this.applyButton.textContent = this.getApplyLabel();
       this.updateUIMode();
     });
 
+    // Swapped source images: badge with a one-click refresh, or re-render right away when opted in
+    figmaService.onMessage('stale-nodes', (message) => {
+      this.staleNodes = message.nodes;
+      this.autoRerender = message.autoRerender;
+      const toggle = document.getElementById('applyToggleAutoRefresh');
+      toggle?.classList.toggle('selected', message.autoRerender);
+      toggle?.setAttribute('aria-checked', String(message.autoRerender));
+      this.staleBadge.update(message.nodes.length, this.isApplying && this.isBatchRunning);
+      if (message.autoRerender && message.nodes.length > 0) {
+        this.refreshStaleNodes();
+      }
+    });
+
+    figmaService.onMessage('export-settings', (message) => {
+      this.tiledExport = message.tiledExport;
+      const toggle = document.getElementById('applyToggleTiledExport');
+      toggle?.classList.toggle('selected', message.tiledExport);
+      toggle?.setAttribute('aria-checked', String(message.tiledExport));
+    });
+
+    // Menu commands: "Apply favourite preset…" opens the list, "Re-apply last effect" runs hidden
+    figmaService.onMessage('show-favourites', () => {
+      this.openFavourites();
+    });
+    figmaService.onMessage('headless-job', (message) => {
+      this.runHeadlessJob(message);
+    });
+
     // Обработчик загрузки кастомных пресетов (пустой, но нужен для совместимости)
     figmaService.onMessage('custom-presets-loaded', () => {
       // Обрабатывается в customPresetsManager
     });
   }
 
+  private async onSelectionUpdated(message: SelectionUpdatedMessage) {
+    if (!this.engine) return;
+    try {
+      this.hidePreviewMessage();
+      this.setControlsEnabled(true);
+      this.batchCount = message.batchCount ?? 1;
+      this.applyButton.textContent = this.getApplyLabel();
+      
+      const crop = message.crop ?? null;
+      this.sourceFill = { fillIndex: message.fillIndex ?? null, crop, fullBytes: message.imageBytes };
+      this.fillPicker.update(this.batchCount > 1 ? [] : message.imageFills ?? [], this.sourceFill.fillIndex);
+      this.nestedPicker.update(message.nestedImages ?? [], message.nestedTarget ?? null);
+
+      // The ImageLoader now handles spinner internally, no need to show message here
+      await this.engine.loadSourceFromBytes(crop ? await cropImageBytes(message.imageBytes, crop) : message.imageBytes);
+      if (message.recipe) {
+        await this.restoreFromRecipe(message.recipe);
+      }
+      // After a new image is loaded, ask gallery to re-render thumbnails with live effect
+      try {
+        const evt = new CustomEvent('thumbnail:rerender');
+        document.dispatchEvent(evt);
+      } catch {}
+      
+      this.hasSelectedImage = true;
+      this.updateUIMode();
+    } catch (error) {
+      console.error('Error loading selected image:', error);
+      
+      // More specific error messages based on error type
+      let errorMessage = 'Error loading image. Please try again.';
+      if (error instanceof Error) {
+        if (error.message.includes('too large')) {
+          errorMessage = 'Image is too large. Please select a smaller image.';
+        } else if (error.message.includes('No image data')) {
+          errorMessage = 'No image data found. Please select a layer with an image fill.';
+        } else if (error.message.includes('Preview container')) {
+          errorMessage = 'Preview interface error. Please refresh the plugin.';
+        }
+      }
+      
+      this.showPreviewMessage(errorMessage);
+      this.hasSelectedImage = false;
+      this.setControlsEnabled(false);
+    }
+  }
+
   private initDevTools() {
-    initDevTools();
+    initDevTools({
+      checkRenderParity: () => {
+        if (!this.hasSelectedImage) {
+          return Promise.reject(new Error('Select an image first'));
+        }
+        return this.engine.checkRenderParity();
+      }
+    });
   }
 
   private setupLicenseSubscription() {
@@ -0,0 +1,121 @@
+/**
+ * Batch Progress Panel
+ *
+ * Overlay shown on top of the preview while an effect is applied to a multi-node
+ * selection. Displays per-node progress with a cancel button and, once the run is
+ * over, a summary listing every node that failed together with the reason.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import type { BatchFailure } from '../types';
+
+export interface BatchSummary {
+  applied: number;
+  total: number;
+  cancelled: boolean;
+  failures: BatchFailure[];
+}
+
+export class BatchProgress {
+  private root: HTMLElement;
+  private title: HTMLElement;
+  private detail: HTMLElement;
+  private barFill: HTMLElement;
+  private failureList: HTMLElement;
+  private actionButton: HTMLButtonElement;
+  private onCancel: (() => void) | null = null;
+  private isRunning = false;
+
+  constructor(container: HTMLElement) {
+    this.root = createElement('div', {
+      className: 'batch-panel absolute inset-0 flex items-center justify-center z-10 hidden',
+      attributes: { role: 'dialog', 'aria-label': 'Batch apply progress', 'aria-live': 'polite' }
+    });
+
+    const card = createElement('div', { className: 'batch-card flex flex-col space-y-2' });
+    this.title = createElement('div', { className: 'text-subheading' });
+    this.detail = createElement('div', { className: 'text-caption text-secondary text-truncate' });
+
+    const bar = createElement('div', { className: 'batch-progress' });
+    this.barFill = createElement('div', { className: 'batch-progress-fill' });
+    bar.appendChild(this.barFill);
+
+    this.failureList = createElement('ul', { className: 'batch-failures text-caption hidden' });
+
+    this.actionButton = createElement('button', {
+      className: 'btn btn-secondary',
+      textContent: 'Cancel'
+    });
+    this.actionButton.addEventListener('click', () => {
+      if (this.isRunning) {
+        this.actionButton.disabled = true;
+        this.actionButton.textContent = 'Cancelling...';
+        this.onCancel?.();
+      } else {
+        this.hide();
+      }
+    });
+
+    card.appendChild(this.title);
+    card.appendChild(this.detail);
+    card.appendChild(bar);
+    card.appendChild(this.failureList);
+    card.appendChild(this.actionButton);
+    this.root.appendChild(card);
+    container.appendChild(this.root);
+  }
+
+  start(total: number, onCancel: () => void): void {
+    this.isRunning = true;
+    this.onCancel = onCancel;
+    this.failureList.classList.add('hidden');
+    replaceContent(this.failureList, []);
+    this.actionButton.disabled = false;
+    this.actionButton.textContent = 'Cancel';
+    this.update(0, total, '');
+    this.root.classList.remove('hidden');
+  }
+
+  update(done: number, total: number, nodeName: string): void {
+    this.title.textContent = `Applying ${Math.min(done + 1, total)} of ${total}`;
+    this.detail.textContent = nodeName;
+    this.barFill.style.width = `${total > 0 ? (done / total) * 100 : 0}%`;
+  }
+
+  finish(summary: BatchSummary): void {
+    this.isRunning = false;
+    this.onCancel = null;
+
+    const { applied, total, cancelled, failures } = summary;
+    this.title.textContent = cancelled
+      ? `Cancelled: ${applied} of ${total} applied`
+      : `Applied to ${applied} of ${total} layers`;
+    this.detail.textContent = failures.length > 0
+      ? `${failures.length} ${failures.length === 1 ? 'layer' : 'layers'} failed:`
+      : '';
+    this.barFill.style.width = `${total > 0 ? (applied / total) * 100 : 0}%`;
+
+    const items = failures.map((failure) => {
+      const item = createElement('li');
+      item.appendChild(createElement('span', { className: 'font-medium', textContent: failure.name }));
+      item.appendChild(document.createTextNode(` — ${failure.reason}`));
+      return item;
+    });
+    replaceContent(this.failureList, items);
+    this.failureList.classList.toggle('hidden', items.length === 0);
+
+    this.actionButton.disabled = false;
+    this.actionButton.textContent = 'Close';
+
+    // Nothing to report: close on its own after a short moment
+    if (failures.length === 0 && !cancelled) {
+      window.setTimeout(() => {
+        if (!this.isRunning) this.hide();
+      }, 1200);
+    }
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+}
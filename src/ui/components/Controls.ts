@@ -1,4 +1,5 @@
 import { DisplacementEngine } from "../engine";
+import type { DisplacementChannel } from "../engine/types";
 import { createTooltip } from './Tooltip.js';
 import { createElement, appendChildren } from "../utils/dom";
 
@@ -258,6 +259,8 @@ export function initControls(engine: DisplacementEngine) {
 
   // Get all slider elements with null checks
   const strengthEl = document.getElementById('strength');
+  const strengthXEl = document.getElementById('strength-x');
+  const strengthYEl = document.getElementById('strength-y');
   const scaleEl = document.getElementById('scale');
   const softEl = document.getElementById('soft');
   const chromaticEl = document.getElementById('chromatic');
@@ -267,14 +270,19 @@ export function initControls(engine: DisplacementEngine) {
   const reflectSharpnessEl = document.getElementById('reflect-sharpness');
 
   // Check if all required elements exist
-  if (!strengthEl || !scaleEl || !softEl || !chromaticEl || 
+  if (!strengthEl || !strengthXEl || !strengthYEl || !scaleEl || !softEl || !chromaticEl || 
       !blurEl || !noiseEl || !reflectOpacityEl || !reflectSharpnessEl) {
     console.error('Required slider elements not found in DOM');
     return null;
   }
 
+  // While linked, both axes follow Strength and the X/Y sliders are hidden and ignored
+  let strengthLinked = true;
+
   const sliders = {
     strength: createSlider(strengthEl, (v) => engine.setStrength(v)),
+    strengthX: createSlider(strengthXEl, (v) => { if (!strengthLinked) engine.setStrengthX(v); }),
+    strengthY: createSlider(strengthYEl, (v) => { if (!strengthLinked) engine.setStrengthY(v); }),
     scale: createSlider(scaleEl, (v) => engine.setScale(v)),
     soft: createSlider(softEl, (v) => engine.setSoft(v)),
     chromatic: createSlider(chromaticEl, (v) => engine.setChromaticAberration(v)),
@@ -284,9 +292,58 @@ export function initControls(engine: DisplacementEngine) {
     reflectSharpness: createSlider(reflectSharpnessEl, (v) => engine.setReflectSharpness(v)),
   };
   
+  const linkButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('button.axis-link'));
+
+  /** Unlinks strength into separate X/Y values, or links it back with null */
+  const setStrengthAxes = (axes: { x: number; y: number } | null) => {
+    strengthLinked = axes === null;
+    if (axes) {
+      sliders.strengthX.setValue(axes.x);
+      sliders.strengthY.setValue(axes.y);
+    } else {
+      engine.setStrengthX(null);
+      engine.setStrengthY(null);
+    }
+    document.getElementById('strength-row')?.classList.toggle('hidden', !strengthLinked);
+    document.getElementById('strength-x-row')?.classList.toggle('hidden', strengthLinked);
+    document.getElementById('strength-y-row')?.classList.toggle('hidden', strengthLinked);
+    linkButtons.forEach((button) => button.setAttribute('aria-pressed', String(strengthLinked)));
+  };
+
+  // Unlinking starts both axes from the current strength, so the preview does not jump
+  linkButtons.forEach((button) => button.addEventListener('click', () => {
+    const strength = sliders.strength.getValue();
+    setStrengthAxes(strengthLinked ? { x: strength, y: strength } : null);
+  }));
+
+  // X/Y displacement channels (selects; not part of the slider batch)
+  const channelX = document.getElementById('channel-x') as HTMLSelectElement | null;
+  const channelY = document.getElementById('channel-y') as HTMLSelectElement | null;
+  const getChannels = () => ({
+    xChannel: (channelX?.value || 'R') as DisplacementChannel,
+    yChannel: (channelY?.value || 'G') as DisplacementChannel
+  });
+  const applyChannels = () => {
+    const { xChannel, yChannel } = getChannels();
+    engine.setDisplacementChannels(xChannel, yChannel);
+  };
+  channelX?.addEventListener('change', applyChannels);
+  channelY?.addEventListener('change', applyChannels);
+
   // Add batch mode control methods to the sliders object
   const slidersWithBatchControl = {
     ...sliders,
+    setStrengthAxes,
+    setChannels(xChannel: DisplacementChannel, yChannel: DisplacementChannel) {
+      if (channelX) channelX.value = xChannel;
+      if (channelY) channelY.value = yChannel;
+      applyChannels();
+    },
+    getChannels,
+    /** Current X/Y strength, or null while linked */
+    getStrengthAxes(): { x: number; y: number } | null {
+      return strengthLinked ? null : { x: sliders.strengthX.getValue(), y: sliders.strengthY.getValue() };
+    },
     setBatchMode(enabled: boolean) {
       console.log(`🛡️ [CONTROLS] Setting batch mode: ${enabled} for all sliders`);
       Object.values(sliders).forEach(slider => {
@@ -14,15 +14,28 @@
 import { licenseService } from '../services';
 import { refreshPresetsFromCDN } from './PresetGallery';
 import { createElement } from '../utils/dom';
+import type { RenderParityReport } from '../engine/types';
+
+export interface DevToolsOptions {
+  /** SVG export vs CPU reference render of the current preview */
+  checkRenderParity?: () => Promise<RenderParityReport>;
+}
+
+// Доля отличающихся пикселей, при которой проверка паритета считается проваленной
+const PARITY_MAX_DIFFERING_SHARE = 0.01;
 
 export class DevTools {
   private toggleButton: HTMLElement | null = null;
   private refreshButton: HTMLElement | null = null;
+  private parityButton: HTMLElement | null = null;
 
-  constructor() {
+  constructor(options: DevToolsOptions = {}) {
     if (licenseService.isDevModeEnabled()) {
       this.createSimpleToggle();
       this.createRefreshButton();
+      if (options.checkRenderParity) {
+        this.createParityButton(options.checkRenderParity);
+      }
     }
   }
 
@@ -112,6 +125,50 @@ export class DevTools {
     document.body.appendChild(this.refreshButton);
   }
 
+  private createParityButton(checkRenderParity: () => Promise<RenderParityReport>): void {
+    this.parityButton = createElement('button', {
+      textContent: '⚖',
+      attributes: { title: 'Compare SVG export with the CPU reference render' },
+      styles: {
+        position: 'fixed',
+        top: '8px',
+        left: '40px',
+        width: '16px',
+        height: '16px',
+        background: '#8b5cf6',
+        border: '1px solid rgba(255,255,255,0.3)',
+        borderRadius: '2px',
+        cursor: 'pointer',
+        zIndex: '10000',
+        opacity: '0.8',
+        fontSize: '8px',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        color: 'white'
+      }
+    });
+
+    this.parityButton.addEventListener('click', async () => {
+      const button = this.parityButton!;
+      button.textContent = '⏳';
+      try {
+        const report = await checkRenderParity();
+        const share = report.differingPixels / Math.max(1, report.width * report.height);
+        console.table(report);
+        button.textContent = share <= PARITY_MAX_DIFFERING_SHARE ? '✅' : '❌';
+      } catch (error) {
+        console.error('❌ Parity check failed:', error);
+        button.textContent = '❌';
+      }
+      setTimeout(() => {
+        button.textContent = '⚖';
+      }, 2000);
+    });
+
+    document.body.appendChild(this.parityButton);
+  }
+
   private updateButton(): void {
     if (this.toggleButton) {
       this.toggleButton.style.background = licenseService.isPro() ? '#10b981' : '#f59e0b';
@@ -127,9 +184,9 @@ export class DevTools {
 }
 
 // Простая инициализация
-export function initDevTools(): DevTools | null {
+export function initDevTools(options?: DevToolsOptions): DevTools | null {
   if (licenseService.isDevModeEnabled()) {
-    return new DevTools();
+    return new DevTools(options);
   }
   return null;
 } 
\ No newline at end of file
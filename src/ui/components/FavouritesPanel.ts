@@ -0,0 +1,79 @@
+/**
+ * Favourites Panel
+ *
+ * Overlay listing the saved favourite recipes. Opened from the apply menu or by the
+ * "Apply favourite preset…" menu command; picking an entry applies it to the selection.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import type { FavouriteRecipe } from '../../shared/recipe';
+
+export interface FavouritesPanelActions {
+  onApply: (favourite: FavouriteRecipe) => void;
+  onDelete: (favourite: FavouriteRecipe) => void;
+}
+
+export class FavouritesPanel {
+  private root: HTMLElement;
+  private list: HTMLElement;
+  private emptyNote: HTMLElement;
+
+  constructor(container: HTMLElement, private actions: FavouritesPanelActions) {
+    this.root = createElement('div', {
+      className: 'batch-panel absolute inset-0 flex items-center justify-center z-10 hidden',
+      attributes: { role: 'dialog', 'aria-label': 'Favourite effects' }
+    });
+
+    const card = createElement('div', { className: 'batch-card flex flex-col space-y-2' });
+    const title = createElement('div', { className: 'text-subheading', textContent: 'Favourites' });
+    this.emptyNote = createElement('div', {
+      className: 'text-caption text-secondary hidden',
+      textContent: 'No favourites yet. Use "Save as favourite" in the apply menu.'
+    });
+    this.list = createElement('ul', { className: 'favourites-list text-caption' });
+
+    const closeButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Close' });
+    closeButton.addEventListener('click', () => this.hide());
+
+    card.appendChild(title);
+    card.appendChild(this.emptyNote);
+    card.appendChild(this.list);
+    card.appendChild(closeButton);
+    this.root.appendChild(card);
+    container.appendChild(this.root);
+  }
+
+  show(favourites: FavouriteRecipe[]): void {
+    this.update(favourites);
+    this.root.classList.remove('hidden');
+  }
+
+  update(favourites: FavouriteRecipe[]): void {
+    const items = favourites.map((favourite) => {
+      const item = createElement('li', { className: 'flex items-center' });
+      const applyButton = createElement('button', {
+        className: 'favourites-apply text-truncate',
+        textContent: favourite.name,
+        attributes: { title: `Apply ${favourite.name}` }
+      });
+      applyButton.addEventListener('click', () => this.actions.onApply(favourite));
+
+      const deleteButton = createElement('button', {
+        className: 'favourites-delete text-secondary',
+        textContent: '×',
+        attributes: { 'aria-label': `Delete ${favourite.name}` }
+      });
+      deleteButton.addEventListener('click', () => this.actions.onDelete(favourite));
+
+      item.appendChild(applyButton);
+      item.appendChild(deleteButton);
+      return item;
+    });
+    replaceContent(this.list, items);
+    this.emptyNote.classList.toggle('hidden', items.length > 0);
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+}
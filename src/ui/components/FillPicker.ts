@@ -0,0 +1,46 @@
+/**
+ * Fill Picker
+ *
+ * Small dropdown over the preview for nodes with several image fills. Lets the user
+ * choose which fill the effect is rendered from and applied to; hidden otherwise.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import type { ImageFillOption } from '../types';
+
+export class FillPicker {
+  private root: HTMLElement;
+  private select: HTMLSelectElement;
+
+  constructor(container: HTMLElement, onChange: (fillIndex: number) => void) {
+    this.root = createElement('div', { className: 'fill-picker absolute z-10 hidden' });
+    this.select = createElement('select', {
+      className: 'text-caption',
+      attributes: { 'aria-label': 'Image fill to process' }
+    });
+    this.select.addEventListener('change', () => onChange(Number(this.select.value)));
+
+    this.root.appendChild(this.select);
+    container.appendChild(this.root);
+  }
+
+  update(fills: ImageFillOption[], selectedIndex: number | null): void {
+    if (fills.length < 2) {
+      this.hide();
+      return;
+    }
+
+    const options = fills.map((fill) =>
+      createElement('option', { textContent: fill.label, attributes: { value: String(fill.index) } })
+    );
+    replaceContent(this.select, options);
+    if (selectedIndex !== null) {
+      this.select.value = String(selectedIndex);
+    }
+    this.root.classList.remove('hidden');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+}
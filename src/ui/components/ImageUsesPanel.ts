@@ -0,0 +1,113 @@
+/**
+ * Image Uses Panel
+ *
+ * Overlay for "Apply to all uses of this image". Scans the current page or the whole
+ * document for layers showing the selected image, reports the scan progress and the
+ * number of uses found, and confirms replacing all of them with the displaced result.
+ */
+
+import { createElement } from '../utils/dom';
+import type { ImageUseScope } from '../types';
+
+export interface ImageUsesPanelActions {
+  onScan: (scope: ImageUseScope) => void;
+  onReplace: () => void;
+}
+
+export class ImageUsesPanel {
+  private root: HTMLElement;
+  private scopeSelect: HTMLSelectElement;
+  private status: HTMLElement;
+  private barFill: HTMLElement;
+  private replaceButton: HTMLButtonElement;
+  private closeButton: HTMLButtonElement;
+
+  constructor(container: HTMLElement, private actions: ImageUsesPanelActions) {
+    this.root = createElement('div', {
+      className: 'batch-panel absolute inset-0 flex items-center justify-center z-10 hidden',
+      attributes: { role: 'dialog', 'aria-label': 'Apply to all uses of this image', 'aria-live': 'polite' }
+    });
+
+    const card = createElement('div', { className: 'batch-card flex flex-col space-y-2' });
+    const title = createElement('div', { className: 'text-subheading', textContent: 'Apply to all uses of this image' });
+
+    this.scopeSelect = createElement('select', {
+      className: 'text-caption',
+      attributes: { 'aria-label': 'Where to look for the image' }
+    });
+    this.scopeSelect.appendChild(createElement('option', { textContent: 'This page', attributes: { value: 'page' } }));
+    this.scopeSelect.appendChild(createElement('option', { textContent: 'All pages', attributes: { value: 'document' } }));
+    this.scopeSelect.addEventListener('change', () => this.actions.onScan(this.getScope()));
+
+    this.status = createElement('div', { className: 'text-caption text-secondary' });
+    const bar = createElement('div', { className: 'batch-progress' });
+    this.barFill = createElement('div', { className: 'batch-progress-fill' });
+    bar.appendChild(this.barFill);
+
+    const buttons = createElement('div', { className: 'flex items-center space-x-2' });
+    this.replaceButton = createElement('button', { className: 'btn btn-primary', textContent: 'Replace' });
+    this.replaceButton.addEventListener('click', () => this.actions.onReplace());
+    this.closeButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Cancel' });
+    this.closeButton.addEventListener('click', () => this.hide());
+    buttons.appendChild(this.replaceButton);
+    buttons.appendChild(this.closeButton);
+
+    card.appendChild(title);
+    card.appendChild(this.scopeSelect);
+    card.appendChild(this.status);
+    card.appendChild(bar);
+    card.appendChild(buttons);
+    this.root.appendChild(card);
+    container.appendChild(this.root);
+  }
+
+  show(): void {
+    this.root.classList.remove('hidden');
+    this.actions.onScan(this.getScope());
+  }
+
+  getScope(): ImageUseScope {
+    return this.scopeSelect.value as ImageUseScope;
+  }
+
+  scanStarted(): void {
+    this.setBusy(true);
+    this.status.textContent = 'Scanning…';
+    this.barFill.style.width = '0%';
+  }
+
+  scanProgress(scanned: number, total: number, found: number): void {
+    this.status.textContent = `Scanning… ${found} found (${scanned} of ${total} top-level layers)`;
+    this.barFill.style.width = `${total > 0 ? (scanned / total) * 100 : 0}%`;
+  }
+
+  scanFinished(count: number): void {
+    this.setBusy(false);
+    const where = this.getScope() === 'page' ? 'on this page' : 'in this file';
+    this.status.textContent = `${count} ${count === 1 ? 'layer uses' : 'layers use'} this image ${where}`;
+    this.barFill.style.width = '100%';
+    this.replaceButton.textContent = `Replace ${count}`;
+    this.replaceButton.disabled = count === 0;
+  }
+
+  replaceStarted(): void {
+    this.setBusy(true);
+    this.status.textContent = 'Replacing…';
+  }
+
+  showError(message: string): void {
+    this.setBusy(false);
+    this.status.textContent = message;
+    this.replaceButton.disabled = true;
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+
+  private setBusy(busy: boolean): void {
+    this.scopeSelect.disabled = busy;
+    this.replaceButton.disabled = busy;
+    this.closeButton.disabled = busy;
+  }
+}
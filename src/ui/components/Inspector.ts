@@ -0,0 +1,164 @@
+/**
+ * Displace Inspector
+ *
+ * "Inspector" tab listing every layer of the document that carries a Displace recipe,
+ * with its page, preset, key settings and a thumbnail. Checked rows can be selected on
+ * canvas, re-rendered with the latest preset definition, switched to another preset or
+ * reverted in one go. The actions themselves are run by the App.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import type { RecipeNodeInfo } from '../types';
+
+export interface InspectorPresetOption {
+  id: string;
+  name: string;
+}
+
+export interface InspectorActions {
+  onScan: () => void;
+  onSelect: (nodes: RecipeNodeInfo[]) => void;
+  onRerender: (nodes: RecipeNodeInfo[]) => void;
+  onChangePreset: (nodes: RecipeNodeInfo[], presetId: string) => void;
+  onRevert: (nodes: RecipeNodeInfo[]) => void;
+}
+
+export class Inspector {
+  private status: HTMLElement;
+  private selectAll: HTMLInputElement;
+  private list: HTMLElement;
+  private presetSelect: HTMLSelectElement;
+  private actionButtons: HTMLButtonElement[] = [];
+  private nodes: RecipeNodeInfo[] = [];
+  private checked = new Set<string>();
+  private presetNames = new Map<string, string>();
+  private thumbnailUrls: string[] = [];
+
+  constructor(container: HTMLElement, private actions: InspectorActions) {
+    const header = createElement('div', { className: 'flex items-center space-x-2' });
+    this.status = createElement('div', { className: 'text-caption text-secondary flex-grow' });
+    const scanButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Scan file' });
+    scanButton.addEventListener('click', () => this.actions.onScan());
+    header.appendChild(this.status);
+    header.appendChild(scanButton);
+
+    const bulk = createElement('div', { className: 'flex items-center space-x-2' });
+    this.selectAll = createElement('input', { attributes: { type: 'checkbox', 'aria-label': 'Check all layers' } });
+    this.selectAll.addEventListener('change', () => {
+      this.checked = new Set(this.selectAll.checked ? this.nodes.map((node) => node.nodeId) : []);
+      this.renderList();
+    });
+    bulk.appendChild(this.selectAll);
+    bulk.appendChild(this.createAction('Select', () => this.actions.onSelect(this.getChecked())));
+    bulk.appendChild(this.createAction('Re-render', () => this.actions.onRerender(this.getChecked())));
+    bulk.appendChild(this.createAction('Revert', () => this.actions.onRevert(this.getChecked())));
+
+    const presetRow = createElement('div', { className: 'flex items-center space-x-2' });
+    this.presetSelect = createElement('select', {
+      className: 'inspector-preset text-caption flex-grow',
+      attributes: { 'aria-label': 'Preset for the checked layers' }
+    });
+    presetRow.appendChild(this.presetSelect);
+    presetRow.appendChild(this.createAction('Change preset', () => {
+      if (this.presetSelect.value) {
+        this.actions.onChangePreset(this.getChecked(), this.presetSelect.value);
+      }
+    }));
+
+    this.list = createElement('ul', { className: 'inspector-list' });
+
+    const root = createElement('div', { className: 'inspector space-y-2' });
+    root.appendChild(header);
+    root.appendChild(bulk);
+    root.appendChild(presetRow);
+    root.appendChild(this.list);
+    container.appendChild(root);
+
+    this.setNodes([]);
+    this.status.textContent = 'Scan the file to list layers with Displace effects';
+  }
+
+  /** Presets offered by "Change preset" and used to name the preset of each row */
+  setPresets(presets: InspectorPresetOption[]): void {
+    this.presetNames = new Map(presets.map((preset) => [preset.id, preset.name]));
+    const options = presets.map((preset) =>
+      createElement('option', { textContent: preset.name, attributes: { value: preset.id } })
+    );
+    replaceContent(this.presetSelect, options);
+    this.renderList();
+  }
+
+  setNodes(nodes: RecipeNodeInfo[]): void {
+    this.nodes = nodes;
+    const ids = new Set(nodes.map((node) => node.nodeId));
+    this.checked = new Set([...this.checked].filter((id) => ids.has(id)));
+    this.status.textContent = `${nodes.length} ${nodes.length === 1 ? 'layer' : 'layers'} with Displace effects`;
+    this.renderList();
+  }
+
+  setBusy(busy: boolean, message?: string): void {
+    if (message) {
+      this.status.textContent = message;
+    }
+    this.actionButtons.forEach((button) => { button.disabled = busy || this.checked.size === 0; });
+  }
+
+  private getChecked(): RecipeNodeInfo[] {
+    return this.nodes.filter((node) => this.checked.has(node.nodeId));
+  }
+
+  private createAction(label: string, onClick: () => void): HTMLButtonElement {
+    const button = createElement('button', { className: 'btn btn-secondary', textContent: label });
+    button.addEventListener('click', onClick);
+    this.actionButtons.push(button);
+    return button;
+  }
+
+  private describe(node: RecipeNodeInfo): string {
+    const { presetId, settings } = node.recipe;
+    const preset = presetId ? this.presetNames.get(presetId) ?? 'Missing preset' : 'Custom map';
+    return `${node.pageName} · ${preset} · s${Math.round(settings.strength)} · sc${Math.round(settings.scale)}`;
+  }
+
+  private renderList(): void {
+    this.thumbnailUrls.forEach((url) => URL.revokeObjectURL(url));
+    this.thumbnailUrls = [];
+
+    const items = this.nodes.map((node) => {
+      const item = createElement('li', { className: 'inspector-row flex items-center space-x-2' });
+      const checkbox = createElement('input', { attributes: { type: 'checkbox', 'aria-label': `Check ${node.name}` } });
+      checkbox.checked = this.checked.has(node.nodeId);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.checked.add(node.nodeId);
+        } else {
+          this.checked.delete(node.nodeId);
+        }
+        this.syncControls();
+      });
+
+      const thumbnail = createElement('div', { className: 'inspector-thumb' });
+      if (node.thumbnail) {
+        const url = URL.createObjectURL(new Blob([node.thumbnail], { type: 'image/png' }));
+        this.thumbnailUrls.push(url);
+        thumbnail.appendChild(createElement('img', { attributes: { src: url, alt: '' } }));
+      }
+
+      const text = createElement('div', { className: 'flex-grow text-truncate' });
+      text.appendChild(createElement('div', { className: 'text-caption font-medium text-truncate', textContent: node.name }));
+      text.appendChild(createElement('div', { className: 'text-caption text-secondary text-truncate', textContent: this.describe(node) }));
+
+      item.appendChild(checkbox);
+      item.appendChild(thumbnail);
+      item.appendChild(text);
+      return item;
+    });
+    replaceContent(this.list, items);
+    this.syncControls();
+  }
+
+  private syncControls(): void {
+    this.selectAll.checked = this.nodes.length > 0 && this.checked.size === this.nodes.length;
+    this.actionButtons.forEach((button) => { button.disabled = this.checked.size === 0; });
+  }
+}
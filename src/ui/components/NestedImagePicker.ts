@@ -0,0 +1,81 @@
+/**
+ * Nested Image Picker
+ *
+ * Thumbnail strip under the preview when a frame, group or component with image-filled
+ * descendants is selected. Lets the user process the whole layer, one nested image, or
+ * all of them at once; hidden for plain layers.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import type { NestedImageOption, NestedTarget } from '../types';
+
+export class NestedImagePicker {
+  private root: HTMLElement;
+  private thumbnailUrls: string[] = [];
+
+  constructor(container: HTMLElement, private onSelect: (target: NestedTarget) => void) {
+    this.root = createElement('div', {
+      className: 'nested-picker absolute z-10 flex items-center space-x-2 hidden',
+      attributes: { role: 'listbox', 'aria-label': 'Image to process' }
+    });
+    container.appendChild(this.root);
+  }
+
+  update(images: NestedImageOption[], selected: NestedTarget): void {
+    this.releaseThumbnails();
+    if (images.length === 0) {
+      this.hide();
+      return;
+    }
+
+    const items = [
+      this.createTextItem('Whole layer', null, selected),
+      ...images.map((image) => this.createImageItem(image, selected)),
+      this.createTextItem(`All ${images.length}`, 'all', selected)
+    ];
+    replaceContent(this.root, items);
+    this.root.classList.remove('hidden');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+    this.releaseThumbnails();
+  }
+
+  private createTextItem(label: string, target: NestedTarget, selected: NestedTarget): HTMLButtonElement {
+    const item = this.createItem(target, selected, label);
+    item.classList.add('text-caption');
+    item.textContent = label;
+    return item;
+  }
+
+  private createImageItem(image: NestedImageOption, selected: NestedTarget): HTMLButtonElement {
+    const item = this.createItem(image.nodeId, selected, image.name);
+    if (image.thumbnail) {
+      const url = URL.createObjectURL(new Blob([image.thumbnail], { type: 'image/png' }));
+      this.thumbnailUrls.push(url);
+      item.appendChild(createElement('img', { attributes: { src: url, alt: '' } }));
+    } else {
+      item.classList.add('text-caption');
+      item.textContent = image.name.charAt(0);
+    }
+    return item;
+  }
+
+  private createItem(target: NestedTarget, selected: NestedTarget, title: string): HTMLButtonElement {
+    const isSelected = target === selected;
+    const item = createElement('button', {
+      className: `nested-picker-item${isSelected ? ' selected' : ''}`,
+      attributes: { role: 'option', title, 'aria-label': title, 'aria-selected': String(isSelected) }
+    });
+    item.addEventListener('click', () => {
+      if (!isSelected) this.onSelect(target);
+    });
+    return item;
+  }
+
+  private releaseThumbnails(): void {
+    this.thumbnailUrls.forEach((url) => URL.revokeObjectURL(url));
+    this.thumbnailUrls = [];
+  }
+}
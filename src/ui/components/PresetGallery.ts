@@ -16,6 +16,11 @@ export function refreshPresetGallery(): void {
   view?.refreshBadges();
 }
 
+// Re-read all presets after custom or file presets changed outside the gallery
+export async function reloadPresetGallery(): Promise<void> {
+  await view?.reload();
+}
+
 export async function refreshPresetsFromCDN(): Promise<void> {
   if (view) {
     await (view as any).store.refreshFromCDN();
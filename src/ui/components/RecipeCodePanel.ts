@@ -0,0 +1,74 @@
+/**
+ * Recipe Code Panel
+ *
+ * Overlay for "Paste recipe code": a text field for the code and the reason it could
+ * not be applied (invalid code, missing maps). Reading the clipboard directly is not
+ * allowed in the plugin iframe, so the user pastes into the field.
+ */
+
+import { createElement } from '../utils/dom';
+
+export interface RecipeCodePanelActions {
+  onApply: (code: string) => void;
+}
+
+export class RecipeCodePanel {
+  private root: HTMLElement;
+  private input: HTMLTextAreaElement;
+  private status: HTMLElement;
+  private applyButton: HTMLButtonElement;
+
+  constructor(container: HTMLElement, private actions: RecipeCodePanelActions) {
+    this.root = createElement('div', {
+      className: 'batch-panel absolute inset-0 flex items-center justify-center z-10 hidden',
+      attributes: { role: 'dialog', 'aria-label': 'Paste recipe code' }
+    });
+
+    const card = createElement('div', { className: 'batch-card flex flex-col space-y-2' });
+    const title = createElement('div', { className: 'text-subheading', textContent: 'Paste recipe code' });
+    this.input = createElement('textarea', {
+      className: 'recipe-code-input text-caption',
+      attributes: { rows: '3', spellcheck: 'false', placeholder: 'dsp1.…', 'aria-label': 'Recipe code' }
+    });
+    this.input.addEventListener('input', () => this.showError(''));
+    this.status = createElement('div', { className: 'storage-message text-caption text-secondary hidden' });
+
+    const buttons = createElement('div', { className: 'flex items-center space-x-2' });
+    this.applyButton = createElement('button', { className: 'btn btn-primary', textContent: 'Apply' });
+    this.applyButton.addEventListener('click', () => this.actions.onApply(this.input.value));
+    const closeButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Cancel' });
+    closeButton.addEventListener('click', () => this.hide());
+    buttons.appendChild(this.applyButton);
+    buttons.appendChild(closeButton);
+
+    card.appendChild(title);
+    card.appendChild(this.input);
+    card.appendChild(this.status);
+    card.appendChild(buttons);
+    this.root.appendChild(card);
+    container.appendChild(this.root);
+  }
+
+  show(): void {
+    this.input.value = '';
+    this.showError('');
+    this.setBusy(false);
+    this.root.classList.remove('hidden');
+    this.input.focus();
+  }
+
+  setBusy(busy: boolean): void {
+    this.applyButton.disabled = busy;
+    this.applyButton.textContent = busy ? 'Checking…' : 'Apply';
+  }
+
+  /** Why the code was not applied; empty text hides it */
+  showError(text: string): void {
+    this.status.textContent = text;
+    this.status.classList.toggle('hidden', text === '');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+}
@@ -1,6 +1,10 @@
+import { getReflectContrastTable } from '../engine/EffectMath';
+
 export interface ReflectEffect {
   setOpacity(opacity: number): void;
   setSharpness(sharpness: number): void;
+  /** Current opacity and sharpness (0-100), for renderers outside the SVG chain */
+  getSettings(): { opacity: number; sharpness: number };
   // No-op in SVG-only pipeline; kept for API compatibility
   updateTexture(textureDataUrl: string, width: number, height: number): void;
   setSoftBlur(stdDeviation: number): void;
@@ -165,22 +169,16 @@ export function createReflectEffect(container: HTMLElement): ReflectEffect {
       
       sharpness = clampedSharpness;
       // LUT: порог хайлайтов + поджатие верхов к белому
-      const t = sharpness / 100;               // 0..1
-      const threshold = 0.60 + 0.35 * t;       // 0.60..0.95 — выше t → жестче отсечка тёмного/середины
-      const gamma = 1.0 - 0.5 * t;             // 1.0..0.5 — ниже → быстрее тянет к белому вверху
-      const samples = 21;                      // сглаженность кривой (16–33 ок)
-      const values: string[] = [];
-      for (let i = 0; i < samples; i++) {
-        const x = i / (samples - 1); // вход [0..1]
-        const y = x < threshold ? 0 : Math.pow((x - threshold) / (1 - threshold || 1e-6), gamma);
-        values.push(String(Math.max(0, Math.min(1, y))));
-      }
-      const table = values.join(' ');
+      const table = getReflectContrastTable(sharpness).join(' ');
       rcR.setAttribute('type', 'table'); rcR.setAttribute('tableValues', table);
       rcG.setAttribute('type', 'table'); rcG.setAttribute('tableValues', table);
       rcB.setAttribute('type', 'table'); rcB.setAttribute('tableValues', table);
     },
 
+    getSettings() {
+      return { opacity, sharpness };
+    },
+
     // No-op in SVG-only pipeline; reflect uses existing fileMapSoft
     updateTexture(_textureDataUrl: string, _width: number, _height: number) {},
 
@@ -220,17 +218,7 @@ export function createReflectEffect(container: HTMLElement): ReflectEffect {
       if (pendingSharpnessUpdate !== null) {
         sharpness = pendingSharpnessUpdate;
         pendingSharpnessUpdate = null;
-        const t = sharpness / 100;
-        const threshold = 0.60 + 0.35 * t;
-        const gamma = 1.0 - 0.5 * t;
-        const samples = 21;
-        const values: string[] = [];
-        for (let i = 0; i < samples; i++) {
-          const x = i / (samples - 1);
-          const y = x < threshold ? 0 : Math.pow((x - threshold) / (1 - threshold || 1e-6), gamma);
-          values.push(String(Math.max(0, Math.min(1, y))));
-        }
-        const table = values.join(' ');
+        const table = getReflectContrastTable(sharpness).join(' ');
         rcR.setAttribute('type', 'table'); rcR.setAttribute('tableValues', table);
         rcG.setAttribute('type', 'table'); rcG.setAttribute('tableValues', table);
         rcB.setAttribute('type', 'table'); rcB.setAttribute('tableValues', table);
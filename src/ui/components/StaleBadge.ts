@@ -0,0 +1,30 @@
+/**
+ * Stale Effects Badge
+ *
+ * Pill in the preview corner shown while layers with a Displace effect have had their
+ * source image swapped. One click re-renders all of them with their stored recipes.
+ */
+
+import { createElement } from '../utils/dom';
+
+export class StaleBadge {
+  private button: HTMLButtonElement;
+
+  constructor(container: HTMLElement, onRefresh: () => void) {
+    this.button = createElement('button', {
+      className: 'stale-badge absolute z-10 text-caption hidden',
+      attributes: { type: 'button' }
+    });
+    this.button.addEventListener('click', onRefresh);
+    container.appendChild(this.button);
+  }
+
+  update(count: number, busy = false): void {
+    this.button.classList.toggle('hidden', count === 0);
+    this.button.disabled = busy;
+    this.button.textContent = busy
+      ? 'Refreshing…'
+      : `⟳ ${count} stale ${count === 1 ? 'effect' : 'effects'}`;
+    this.button.title = 'Source images changed: re-render these effects';
+  }
+}
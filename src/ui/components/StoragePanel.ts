@@ -0,0 +1,145 @@
+/**
+ * Storage Panel
+ *
+ * Overlay showing how much of the plugin's clientStorage quota is used and which custom
+ * presets take the space, largest first, with a delete button per preset. Checked presets
+ * (or all of them when none is checked) can be exported to a `.displace.json` pack, and
+ * packs can be imported from here.
+ */
+
+import { createElement, replaceContent } from '../utils/dom';
+import { formatBytes } from '../../shared/storageQuota';
+import { PRESET_PACK_EXTENSION } from '../presetPacks';
+import type { PresetStorageSize, StorageUsage } from '../types';
+
+export interface StoragePanelActions {
+  onDelete: (preset: PresetStorageSize) => void;
+  onExport: (presetIds: string[]) => void;
+  onImport: (file: File) => void;
+}
+
+export class StoragePanel {
+  private root: HTMLElement;
+  private summary: HTMLElement;
+  private barFill: HTMLElement;
+  private list: HTMLElement;
+  private emptyNote: HTMLElement;
+  private message: HTMLElement;
+  private exportButton: HTMLButtonElement;
+  private checked = new Set<string>();
+
+  constructor(container: HTMLElement, private actions: StoragePanelActions) {
+    this.root = createElement('div', {
+      className: 'batch-panel absolute inset-0 flex items-center justify-center z-10 hidden',
+      attributes: { role: 'dialog', 'aria-label': 'Plugin storage' }
+    });
+
+    const card = createElement('div', { className: 'batch-card flex flex-col space-y-2' });
+    const title = createElement('div', { className: 'text-subheading', textContent: 'Storage' });
+    this.summary = createElement('div', { className: 'text-caption text-secondary' });
+    const bar = createElement('div', { className: 'batch-progress' });
+    this.barFill = createElement('div', { className: 'batch-progress-fill' });
+    bar.appendChild(this.barFill);
+    this.emptyNote = createElement('div', {
+      className: 'text-caption text-secondary hidden',
+      textContent: 'No custom presets stored.'
+    });
+    this.list = createElement('ul', { className: 'favourites-list text-caption' });
+
+    this.message = createElement('div', { className: 'storage-message text-caption text-secondary hidden' });
+
+    const buttons = createElement('div', { className: 'flex items-center space-x-2' });
+    this.exportButton = createElement('button', { className: 'btn btn-secondary' });
+    this.exportButton.addEventListener('click', () => this.actions.onExport([...this.checked]));
+    const importInput = createElement('input', {
+      className: 'hidden',
+      attributes: { type: 'file', accept: `${PRESET_PACK_EXTENSION},application/json` }
+    });
+    importInput.addEventListener('change', () => {
+      const file = importInput.files?.[0];
+      importInput.value = '';
+      if (file) this.actions.onImport(file);
+    });
+    const importButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Import…' });
+    importButton.addEventListener('click', () => importInput.click());
+    const closeButton = createElement('button', { className: 'btn btn-secondary', textContent: 'Close' });
+    closeButton.addEventListener('click', () => this.hide());
+    buttons.appendChild(this.exportButton);
+    buttons.appendChild(importButton);
+    buttons.appendChild(importInput);
+    buttons.appendChild(closeButton);
+
+    card.appendChild(title);
+    card.appendChild(this.summary);
+    card.appendChild(bar);
+    card.appendChild(this.emptyNote);
+    card.appendChild(this.list);
+    card.appendChild(this.message);
+    card.appendChild(buttons);
+    this.root.appendChild(card);
+    container.appendChild(this.root);
+  }
+
+  show(usage: StorageUsage): void {
+    this.checked.clear();
+    this.showMessage('');
+    this.update(usage);
+    this.root.classList.remove('hidden');
+  }
+
+  update(usage: StorageUsage): void {
+    this.summary.textContent = `${formatBytes(usage.used)} of ${formatBytes(usage.total)} used`;
+    this.barFill.style.width = `${Math.min(100, usage.percentage)}%`;
+
+    const presets = usage.presets ?? [];
+    const ids = new Set(presets.map((preset) => preset.id));
+    this.checked = new Set([...this.checked].filter((id) => ids.has(id)));
+    const items = presets.map((preset) => {
+      const item = createElement('li', { className: 'flex items-center space-x-2' });
+      const checkbox = createElement('input', { attributes: { type: 'checkbox', 'aria-label': `Check ${preset.name}` } });
+      checkbox.checked = this.checked.has(preset.id);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.checked.add(preset.id);
+        } else {
+          this.checked.delete(preset.id);
+        }
+        this.syncExportButton(presets.length);
+      });
+      const shared = preset.sharedBytes > 0 ? ` · ${formatBytes(preset.sharedBytes)} shared` : '';
+      const label = createElement('div', { className: 'flex-grow text-truncate', textContent: preset.name });
+      const size = createElement('div', { className: 'text-secondary', textContent: `${formatBytes(preset.bytes)}${shared}` });
+
+      const deleteButton = createElement('button', {
+        className: 'favourites-delete text-secondary',
+        textContent: '×',
+        attributes: { 'aria-label': `Delete ${preset.name}` }
+      });
+      deleteButton.addEventListener('click', () => this.actions.onDelete(preset));
+
+      item.appendChild(checkbox);
+      item.appendChild(label);
+      item.appendChild(size);
+      item.appendChild(deleteButton);
+      return item;
+    });
+    replaceContent(this.list, items);
+    this.emptyNote.classList.toggle('hidden', items.length > 0);
+    this.syncExportButton(presets.length);
+  }
+
+  /** Result of the last export or import; empty text hides it */
+  showMessage(text: string): void {
+    this.message.textContent = text;
+    this.message.classList.toggle('hidden', text === '');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+
+  private syncExportButton(total: number): void {
+    this.exportButton.textContent = this.checked.size > 0 ? `Export ${this.checked.size}` : 'Export all';
+    this.exportButton.disabled = total === 0;
+  }
+}
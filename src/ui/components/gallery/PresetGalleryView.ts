@@ -37,6 +37,8 @@ export class PresetGalleryView {
     licenseService.onStateChange(() => this.refreshBadges());
     // Image change -> rerender thumbs
     document.addEventListener('thumbnail:rerender', () => { this.setThumbnailsDisabled(false); this.rerenderVisibleThumbs(); });
+    // Team presets changed in the document (also after share/copy/delete below)
+    document.addEventListener('file-presets-updated', () => this.reload());
     // Selection cleared -> reset all thumbs to skeleton
     document.addEventListener('thumbnail:clear', () => this.setThumbnailsDisabled(true));
     // Update selection ring on randomize from App
@@ -53,6 +55,11 @@ export class PresetGalleryView {
     });
   }
 
+  async reload(): Promise<void> {
+    await this.store.loadAll();
+    this.render();
+  }
+
   private render(): void {
     replaceContent(this.container, []);
     for (const category of this.store.getCategories()) {
@@ -103,7 +110,7 @@ export class PresetGalleryView {
   }
 
   private createPresetItem(preset: Preset): HTMLElement {
-    const item = createElement('div', { className: 'preset-item' });
+    const item = createElement('div', { className: preset.isCustom ? 'preset-item custom-preset' : 'preset-item' });
     (item as any).dataset.presetName = preset.name;
     (item as any).dataset.thumbReady = '0';
     (item as any).dataset.thumbStale = '0';
@@ -120,11 +127,35 @@ export class PresetGalleryView {
     item.appendChild(ring);
     item.appendChild(skeleton);
     item.addEventListener('click', () => this.applyPreset(preset));
+    if (preset.isFilePreset) {
+      item.appendChild(this.createPresetAction('share-btn', '↓', 'Copy to my presets', () => this.store.copyToPersonal(preset)));
+      item.appendChild(this.createPresetAction('delete-btn', '×', 'Remove from this file', async () => {
+        if (confirm(`Remove "${preset.name}" from this file for everyone?`)) await this.store.deleteFilePreset(preset.id);
+      }));
+    } else if (preset.isCustom) {
+      item.appendChild(this.createPresetAction('share-btn', '↑', 'Share with this file', () => this.store.promoteToFile(preset)));
+    }
     // Apply disabled visuals if needed
     if (this.isDisabled) this.applyDisabledVisuals(item);
     return item;
   }
 
+  // Small hover button on custom and file presets; the gallery re-renders when the action completes
+  private createPresetAction(className: string, label: string, title: string, action: () => Promise<unknown>): HTMLElement {
+    const button = createElement('button', { className, textContent: label, attributes: { type: 'button', title, 'aria-label': title } });
+    button.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        await action();
+        this.render();
+      } catch (error) {
+        console.error(`❌ PresetGallery: ${title} failed:`, error);
+        alert(`${title} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    return button;
+  }
+
   private createCustomMapButton(): HTMLElement {
     const item = createElement('div', { className: 'preset-item bg-[#E5E5E5] dark:bg-[#3A3A3A] flex items-center justify-center' });
     const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
@@ -141,8 +172,13 @@ export class PresetGalleryView {
       if (!file) return;
       const shouldSave = confirm('Save this image as a custom preset?');
       if (shouldSave) {
-        await this.store.saveCustomPreset(file);
-        this.render();
+        try {
+          await this.store.saveCustomPreset(file);
+          this.render();
+        } catch (error) {
+          // e.g. the storage quota is full: the message says how much space is missing
+          alert(error instanceof Error ? error.message : String(error));
+        }
       } else {
         const reader = new FileReader();
         reader.onload = () => {
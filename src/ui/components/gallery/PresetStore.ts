@@ -1,6 +1,7 @@
 import { Preset } from '../../presets';
 import { presetService } from '../../services/PresetService';
 import { customPresetsManager, CustomPreset } from '../../customPresets';
+import { filePresetsManager, FilePreset } from '../../filePresets';
 import { eventBus } from '../../core/EventBus';
 
 export type PresetCategory = {
@@ -27,8 +28,11 @@ export class PresetStore {
         console.log(`✅ PresetStore: Loaded ${customPresets.length} custom presets`);
       }
       
+      // Team presets from the document come first ("This file" is only shown when non-empty)
+      const filePresets = filePresetsManager.getFilePresets();
+
       // Объединяем все пресеты
-      this.allPresets = [...cdnPresets, ...customPresets];
+      this.allPresets = [...filePresets, ...cdnPresets, ...customPresets];
       this.isLoaded = true;
       
       console.log(`✅ PresetStore: Total ${this.allPresets.length} presets loaded`);
@@ -75,6 +79,23 @@ export class PresetStore {
     return preset;
   }
 
+  async promoteToFile(preset: Preset): Promise<FilePreset> {
+    const filePreset = await filePresetsManager.promoteToFile(preset);
+    await this.loadAll();
+    return filePreset;
+  }
+
+  async copyToPersonal(preset: Preset): Promise<CustomPreset> {
+    const customPreset = await customPresetsManager.importPreset(preset);
+    await this.loadAll();
+    return customPreset;
+  }
+
+  async deleteFilePreset(id: string): Promise<void> {
+    await filePresetsManager.deleteFilePreset(id);
+    await this.loadAll();
+  }
+
   /**
    * Обновить пресеты с CDN (принудительно)
    */
@@ -165,6 +165,8 @@ export class ThumbnailRenderer {
       // Apply scale BEFORE soft so stdDeviation is computed with correct base
       this.engine.setScale(preset.defaultScale);
       this.engine.setStrength(preset.defaultStrength);
+      this.engine.setStrengthX(preset.defaultStrengthX ?? null);
+      this.engine.setStrengthY(preset.defaultStrengthY ?? null);
 
       // Thumbnails must reflect only displacement map with default strength/scale
       // Ignore chromatic/blur/soft/dissolve to avoid mismatch and noise
@@ -185,7 +187,7 @@ export class ThumbnailRenderer {
       const outSize = 200; // restore size for crisper thumbnails
 
       // Cache key capturing generation and preset defaults only
-      const key = `${startGen}|${preset.id}|${preset.defaultScale}|${preset.defaultStrength}|${outSize}`;
+      const key = `${startGen}|${preset.id}|${preset.defaultScale}|${preset.defaultStrength}|${preset.defaultStrengthX ?? ''}|${preset.defaultStrengthY ?? ''}|${outSize}`;
       const cached = this.cache.get(key);
       if (cached) {
         this.log('render.cache.hit', { preset: preset.id });
@@ -51,6 +51,7 @@ export const APP_CONFIG = {
     // Image cache settings (for faster loading, NOT for quality optimization)
     IMAGE_CACHE_MAX_SIZE: 10,        // Cache last 10 processed images
     IMAGE_CACHE_TTL: 300000,         // 5 minutes TTL
+    GENERATED_MAP_CACHE_SIZE: 6,     // Procedural maps kept per rendered size (preview, export, thumbnails)
   },
   
   // Quality and rendering settings
@@ -70,6 +71,13 @@ export const APP_CONFIG = {
     // Export behavior: false = use HQ original source for final render (preferred);
     // true = force exact visual parity with Live Preview
     MATCH_PREVIEW_ON_EXPORT: false,
+    // Full-resolution export of sources larger than FIGMA_ABSOLUTE_LIMIT, as a grid of tiles
+    // of at most FIGMA_ABSOLUTE_LIMIT each. MAX_SIDE keeps the map canvas within browser limits;
+    // MIN_OVERLAP is the extra margin rendered around each tile on top of the effect's reach
+    TILED_EXPORT: {
+      MAX_SIDE: 16384,
+      MIN_OVERLAP: 16,
+    },
   },
   
   // Effect calculation constants
@@ -111,6 +119,21 @@ export const APP_CONFIG = {
   ANIMATION_DURATION: 300,
   TOAST_DURATION: 2000,
   REQUEST_TIMEOUT: 5000,
+
+  // Batch apply (multi-node selection)
+  BATCH: {
+    ITEM_TIMEOUT: 30000, // render + createImage can take a while for large images
+  },
+
+  // "Apply to all uses of this image": document scans and bulk replace
+  IMAGE_USES: {
+    TIMEOUT: 120000,
+  },
+
+  // Inspector tab: whole-document recipe scan
+  INSPECTOR: {
+    SCAN_TIMEOUT: 120000,
+  },
   
   // External URLs (for security audit)
   ALLOWED_DOMAINS: [
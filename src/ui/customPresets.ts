@@ -1,6 +1,9 @@
 import { Preset } from "./presets";
 import { APP_CONFIG } from "./config/constants";
 import { figmaService } from "./services";
+import type { StorageUsage } from "./types";
+import { createPresetPack, presetContentHash } from "./presetPacks";
+import type { PresetPack, PresetPackImportReport } from "./presetPacks";
 
 // Максимальный размер изображения для оптимизации
 const MAX_IMAGE_SIZE = APP_CONFIG.INITIAL_SIZE;
@@ -18,12 +21,8 @@ class CustomPresetsManager {
 
   constructor() {
     // Слушаем автоматическую загрузку пресетов при запуске плагина
-    window.addEventListener('message', (event) => {
-      const raw = (event as any)?.data;
-      const msg = raw && (raw.pluginMessage ? raw.pluginMessage : raw);
-      if (!msg || !msg.type) return;
-
-      if (msg.type === 'custom-presets-loaded' && !this.isInitialized) {
+    figmaService.onMessage('custom-presets-loaded', (msg) => {
+      if (!this.isInitialized) {
         this.customPresets = msg.presets || [];
         this.isInitialized = true;
         
@@ -88,6 +87,72 @@ class CustomPresetsManager {
     }
   }
 
+  // Скопировать пресет из файла (команды) в личное хранилище
+  async importPreset(source: Preset): Promise<CustomPreset> {
+    const preset: CustomPreset = {
+      id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: source.name,
+      layers: source.layers,
+      defaultScale: source.defaultScale,
+      defaultStrength: source.defaultStrength,
+      defaultStrengthX: source.defaultStrengthX,
+      defaultStrengthY: source.defaultStrengthY,
+      category: CUSTOM_CATEGORY,
+      isCustom: true,
+      createdAt: Date.now()
+    };
+    await figmaService.saveCustomPreset(preset);
+    this.customPresets.unshift(preset);
+    return preset;
+  }
+
+  // Упаковать выбранные (или все) кастомные пресеты в pack для файла .displace.json
+  exportPack(presetIds?: string[]): PresetPack {
+    const presets = presetIds
+      ? this.customPresets.filter(p => presetIds.includes(p.id))
+      : this.customPresets;
+    return createPresetPack(presets);
+  }
+
+  // Импорт проверенного pack (см. parsePresetPack): одинаковые карты пропускаем,
+  // при совпадении id выдаём новый; каждый пресет сохраняется через save-custom-preset
+  async importPack(pack: PresetPack): Promise<PresetPackImportReport> {
+    const report: PresetPackImportReport = { added: [], skipped: [] };
+    const known = new Map(this.customPresets.map(p => [presetContentHash(p), p.name]));
+
+    for (const packed of pack.presets) {
+      const hash = presetContentHash(packed);
+      const existing = known.get(hash);
+      if (existing !== undefined) {
+        report.skipped.push({ name: packed.name, reason: `same as "${existing}"` });
+        continue;
+      }
+      const idTaken = this.customPresets.some(p => p.id === packed.id);
+      const preset: CustomPreset = {
+        id: idTaken ? `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` : packed.id,
+        name: packed.name,
+        layers: packed.layers,
+        defaultScale: packed.defaultScale,
+        defaultStrength: packed.defaultStrength,
+        defaultStrengthX: packed.defaultStrengthX,
+        defaultStrengthY: packed.defaultStrengthY,
+        category: CUSTOM_CATEGORY,
+        isCustom: true,
+        createdAt: Date.now()
+      };
+      try {
+        await figmaService.saveCustomPreset(preset);
+      } catch (error) {
+        report.skipped.push({ name: packed.name, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      this.customPresets.unshift(preset);
+      known.set(hash, preset.name);
+      report.added.push(preset.name);
+    }
+    return report;
+  }
+
   // Удалить кастомный пресет
   async deleteCustomPreset(presetId: string): Promise<void> {
     try {
@@ -107,7 +172,7 @@ class CustomPresetsManager {
   }
 
   // Проверить использование storage
-  async getStorageUsage(): Promise<{ used: number; total: number; percentage: number }> {
+  async getStorageUsage(): Promise<StorageUsage> {
     try {
       // ✅ ПОСЛЕ: Безопасный вызов через сервис  
       const response = await figmaService.getStorageUsage();
@@ -0,0 +1,357 @@
+/**
+ * CPU Reference Renderer
+ *
+ * The displacement pipeline of `createSVGTemplate()` re-implemented over plain RGBA buffers,
+ * with no DOM, so it runs in Node or a worker and gives the same answer in every browser.
+ * Stages follow the filter chain one to one:
+ *
+ * 1. Source, mirrored past its edges, over the filter region (image + margin on each side)
+ * 2. Source pre-blur (feGaussianBlur)
+ * 3. Dissolve: displacement by the tiled noise texture
+ * 4. Displacement map with the Soft blur
+ * 5. Selected map channels weighted per axis (X/Y strength), then R, G and B displaced
+ *    separately (chromatic offsets) and recombined with screen
+ * 6. Reflect: luminance of the soft map → blur → highlight curve → opacity → screen
+ *
+ * Filter semantics are those of the SVG spec as browsers implement them: 8-bit premultiplied
+ * buffers between stages, transparent black outside the filter region, nearest-pixel
+ * displacement lookups and, from a deviation of 2, the three-box-blur approximation of a
+ * Gaussian. Results therefore match the SVG export to within a few levels, not bit for bit.
+ *
+ * @module CpuRenderer
+ */
+
+import { CHANNEL_INDEX, getAxisDisplacement, getDisplacementScales, getMapSoftDeviation, getPreviewRatio, getReflectContrastTable, getSourceBlurDeviation } from './EffectMath';
+import type { CpuRenderInput, RenderParityReport, RgbaImage } from './types';
+
+/** Side of the dissolve noise tile */
+export const NOISE_TILE_SIZE = 128;
+
+/** Random red/green noise tile used by the dissolve displacement */
+export function createNoiseTile(random: () => number = Math.random): RgbaImage {
+  const data = new Uint8ClampedArray(NOISE_TILE_SIZE * NOISE_TILE_SIZE * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = random() * 255;
+    data[i + 1] = random() * 255;
+    data[i + 2] = 0;
+    data[i + 3] = 255;
+  }
+  return { width: NOISE_TILE_SIZE, height: NOISE_TILE_SIZE, data };
+}
+
+/** Renders the effect at the source's size; the result is straight (not premultiplied) RGBA */
+export function renderDisplacementOnCpu(input: CpuRenderInput): RgbaImage {
+  const { source, settings, state } = input;
+  const { width, height } = source;
+  const margin = Math.round(Math.max(width, height) * state.filterMarginPercent / 100);
+
+  // 1-2. Mirrored source over the filter region, pre-blurred
+  const region = createMirroredRegion(source, margin);
+  blurLayer(region, getSourceBlurDeviation(settings.blur, width, height));
+
+  // 3. Dissolve
+  const dissolved = input.dissolve !== 0 ? dissolveLayer(region, input.noise, input.dissolve) : region;
+
+  // 4. Displacement map: feImage covers the image only, so the blur fades into transparency at its edges
+  const map = input.map ? premultiply(input.map) : { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const previewRatio = getPreviewRatio(state.previewMax, width, height);
+  blurLayer(map, getMapSoftDeviation(settings.soft, state.scalePct, previewRatio));
+
+  // 5. Per-channel displacement, recombined with screen
+  const axes = getAxisDisplacement(settings.strength, settings.strengthX, settings.strengthY);
+  const scales = getDisplacementScales(axes.strength, settings.chromaticAberration, width, height);
+  const xIndex = CHANNEL_INDEX[settings.xChannel];
+  const yIndex = CHANNEL_INDEX[settings.yChannel];
+  // Selecting alpha makes the routed map opaque (see getMapAxesMatrix)
+  const opaque = xIndex === 3 || yIndex === 3;
+  const output = new Uint8ClampedArray(width * height * 4);
+  const channelScales = [scales.red, scales.green, scales.blue];
+  const result = [0, 0, 0, 0];
+  const layer = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = map.data[i + 3];
+      // in2 is read unpremultiplied
+      const dispX = alpha > 0 || opaque ? weightAxis(readMapChannel(map.data, i, xIndex), axes.slopeX) : 0;
+      const dispY = alpha > 0 || opaque ? weightAxis(readMapChannel(map.data, i, yIndex), axes.slopeY) : 0;
+      result.fill(0);
+      for (let channel = 0; channel < 3; channel++) {
+        const scale = channelScales[channel];
+        const sx = Math.floor(x + margin + 0.5 + scale * (dispX / 255 - 0.5));
+        const sy = Math.floor(y + margin + 0.5 + scale * (dispY / 255 - 0.5));
+        if (sx < 0 || sy < 0 || sx >= dissolved.width || sy >= dissolved.height) continue;
+        const j = (sy * dissolved.width + sx) * 4;
+        // Channel image: this channel and alpha, the other two zeroed
+        layer.fill(0);
+        layer[channel] = dissolved.data[j + channel];
+        layer[3] = dissolved.data[j + 3];
+        screenInto(result, layer);
+      }
+      output[i] = result[0];
+      output[i + 1] = result[1];
+      output[i + 2] = result[2];
+      output[i + 3] = result[3];
+    }
+  }
+
+  // 6. Reflect highlights from the soft map
+  if (input.reflect.opacity > 0) {
+    const reflect = createReflectLayer(map, input.reflect.sharpness, input.reflect.opacity / 100, getMapSoftDeviation(settings.soft, state.scalePct));
+    for (let i = 0; i < output.length; i++) {
+      output[i] = output[i] + reflect.data[i] - (output[i] * reflect.data[i]) / 255;
+    }
+  }
+
+  return unpremultiply({ width, height, data: output });
+}
+
+/**
+ * Compares two renders of the same size. A pixel differs when any channel is more than
+ * `tolerance` levels apart.
+ */
+export function compareRgbaImages(a: RgbaImage, b: RgbaImage, tolerance = 8): RenderParityReport {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Cannot compare ${a.width}×${a.height} with ${b.width}×${b.height}`);
+  }
+  let maxDifference = 0;
+  let totalDifference = 0;
+  let differingPixels = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    let pixelMax = 0;
+    for (let c = 0; c < 4; c++) {
+      const difference = Math.abs(a.data[i + c] - b.data[i + c]);
+      totalDifference += difference;
+      if (difference > pixelMax) pixelMax = difference;
+    }
+    if (pixelMax > maxDifference) maxDifference = pixelMax;
+    if (pixelMax > tolerance) differingPixels++;
+  }
+  return {
+    width: a.width,
+    height: a.height,
+    tolerance,
+    maxDifference,
+    meanDifference: totalDifference / Math.max(1, a.data.length),
+    differingPixels
+  };
+}
+
+// --- Stages ---
+
+/** Source extended by `margin` on every side, mirrored at the edges like createMirroredTexture */
+function createMirroredRegion(source: RgbaImage, margin: number): RgbaImage {
+  const width = source.width + margin * 2;
+  const height = source.height + margin * 2;
+  const premultiplied = premultiply(source);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = mirrorIndex(y - margin, source.height);
+    for (let x = 0; x < width; x++) {
+      const sx = mirrorIndex(x - margin, source.width);
+      const from = (sy * source.width + sx) * 4;
+      const to = (y * width + x) * 4;
+      data[to] = premultiplied.data[from];
+      data[to + 1] = premultiplied.data[from + 1];
+      data[to + 2] = premultiplied.data[from + 2];
+      data[to + 3] = premultiplied.data[from + 3];
+    }
+  }
+  return { width, height, data };
+}
+
+function mirrorIndex(index: number, size: number): number {
+  if (index < 0) index = -index - 1;
+  if (index >= size) index = 2 * size - index - 1;
+  return Math.max(0, Math.min(size - 1, index));
+}
+
+/** Displacement by the noise texture, tiled from the filter region's corner */
+function dissolveLayer(layer: RgbaImage, noise: RgbaImage, scale: number): RgbaImage {
+  const { width, height } = layer;
+  const data = new Uint8ClampedArray(layer.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const n = ((y % noise.height) * noise.width + (x % noise.width)) * 4;
+      const alpha = noise.data[n + 3];
+      const dispX = alpha > 0 ? noise.data[n] * 255 / alpha : 0;
+      const dispY = alpha > 0 ? noise.data[n + 1] * 255 / alpha : 0;
+      const sx = Math.floor(x + 0.5 + scale * (dispX / 255 - 0.5));
+      const sy = Math.floor(y + 0.5 + scale * (dispY / 255 - 0.5));
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+      const from = (sy * width + sx) * 4;
+      const to = (y * width + x) * 4;
+      data[to] = layer.data[from];
+      data[to + 1] = layer.data[from + 1];
+      data[to + 2] = layer.data[from + 2];
+      data[to + 3] = layer.data[from + 3];
+    }
+  }
+  return { width, height, data };
+}
+
+/** Luminance of the soft map, blurred, through the highlight curve, at the given opacity */
+function createReflectLayer(map: RgbaImage, sharpness: number, opacity: number, deviation: number): RgbaImage {
+  const gray = new Uint8ClampedArray(map.data.length);
+  for (let i = 0; i < map.data.length; i += 4) {
+    // feColorMatrix works on unpremultiplied color; premultiplying again leaves a*luma
+    const luma = 0.2126 * map.data[i] + 0.7152 * map.data[i + 1] + 0.0722 * map.data[i + 2];
+    gray[i] = gray[i + 1] = gray[i + 2] = luma;
+    gray[i + 3] = map.data[i + 3];
+  }
+  const layer = { width: map.width, height: map.height, data: gray };
+  blurLayer(layer, deviation);
+
+  const table = getReflectContrastTable(sharpness);
+  const straight = unpremultiply(layer);
+  for (let i = 0; i < straight.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      straight.data[i + c] = applyTable(table, straight.data[i + c] / 255) * 255;
+    }
+    straight.data[i + 3] = straight.data[i + 3] * opacity;
+  }
+  return premultiply(straight);
+}
+
+/** feComponentTransfer type="table": linear interpolation between the table values */
+function applyTable(table: number[], value: number): number {
+  const n = table.length - 1;
+  if (n < 1) return n === 0 ? table[0] : value;
+  const k = Math.min(n - 1, Math.floor(value * n));
+  return table[k] + (value - k / n) * n * (table[k + 1] - table[k]);
+}
+
+/** Unpremultiplied value of one channel of a premultiplied pixel */
+function readMapChannel(data: Uint8ClampedArray, i: number, channel: number): number {
+  const alpha = data[i + 3];
+  if (channel === 3) return alpha;
+  return alpha > 0 ? data[i + channel] * 255 / alpha : 0;
+}
+
+/** One axis row of the map routing matrix (slope, offset 0.5 - 0.5·slope) on an 8-bit value */
+function weightAxis(value: number, slope: number): number {
+  return Math.round(Math.max(0, Math.min(255, slope * value + 127.5 * (1 - slope))));
+}
+
+/** Premultiplied screen: result = a + b - a·b, alpha included */
+function screenInto(result: number[], layer: number[]): void {
+  for (let c = 0; c < 4; c++) {
+    result[c] = result[c] + layer[c] - (result[c] * layer[c]) / 255;
+  }
+}
+
+// --- Gaussian blur ---
+
+type BlurPass = { kind: 'box'; size: number; offset: number } | { kind: 'kernel'; weights: Float64Array };
+
+/** In-place blur of a premultiplied layer; pixels outside the layer count as transparent */
+function blurLayer(layer: RgbaImage, deviation: number): void {
+  if (!(deviation > 0)) return;
+  const passes = getBlurPasses(deviation);
+  const { width, height, data } = layer;
+  const longest = Math.max(width, height);
+  const line = new Float64Array(longest * 4);
+  const scratch = { input: new Float64Array(longest * 4), prefix: new Float64Array((longest + 1) * 4) };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width * 4; x++) line[x] = data[y * width * 4 + x];
+    blurLine(line, width, passes, scratch);
+    for (let x = 0; x < width * 4; x++) data[y * width * 4 + x] = line[x];
+  }
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let c = 0; c < 4; c++) line[y * 4 + c] = data[(y * width + x) * 4 + c];
+    }
+    blurLine(line, height, passes, scratch);
+    for (let y = 0; y < height; y++) {
+      for (let c = 0; c < 4; c++) data[(y * width + x) * 4 + c] = line[y * 4 + c];
+    }
+  }
+}
+
+/**
+ * Blur passes as defined for feGaussianBlur: a true kernel below a deviation of 2, otherwise
+ * three box blurs of size d (or two of d and one of d + 1 when d is even).
+ */
+function getBlurPasses(deviation: number): BlurPass[] {
+  if (deviation < 2) {
+    const radius = Math.ceil(deviation * 3);
+    const weights = new Float64Array(radius * 2 + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+      sum += weights[i + radius] = Math.exp(-(i * i) / (2 * deviation * deviation));
+    }
+    for (let i = 0; i < weights.length; i++) weights[i] /= sum;
+    return [{ kind: 'kernel', weights }];
+  }
+  const d = Math.floor(deviation * 3 * Math.sqrt(2 * Math.PI) / 4 + 0.5);
+  if (d % 2 === 1) {
+    const pass: BlurPass = { kind: 'box', size: d, offset: (d - 1) / 2 };
+    return [pass, pass, pass];
+  }
+  return [
+    { kind: 'box', size: d, offset: d / 2 },
+    { kind: 'box', size: d, offset: d / 2 - 1 },
+    { kind: 'box', size: d + 1, offset: d / 2 }
+  ];
+}
+
+function blurLine(
+  line: Float64Array,
+  length: number,
+  passes: BlurPass[],
+  { input, prefix }: { input: Float64Array; prefix: Float64Array }
+): void {
+  for (const pass of passes) {
+    input.set(line.subarray(0, length * 4));
+    if (pass.kind === 'box') {
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < 4; c++) prefix[(i + 1) * 4 + c] = prefix[i * 4 + c] + input[i * 4 + c];
+      }
+      for (let i = 0; i < length; i++) {
+        const start = Math.max(0, Math.min(length, i - pass.offset));
+        const end = Math.max(0, Math.min(length, i - pass.offset + pass.size));
+        for (let c = 0; c < 4; c++) line[i * 4 + c] = (prefix[end * 4 + c] - prefix[start * 4 + c]) / pass.size;
+      }
+    } else {
+      const radius = (pass.weights.length - 1) / 2;
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < 4; c++) {
+          let sum = 0;
+          for (let k = -radius; k <= radius; k++) {
+            const j = i + k;
+            if (j >= 0 && j < length) sum += input[j * 4 + c] * pass.weights[k + radius];
+          }
+          line[i * 4 + c] = sum;
+        }
+      }
+    }
+  }
+}
+
+// --- Alpha ---
+
+function premultiply(image: RgbaImage): RgbaImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3];
+    data[i] = image.data[i] * alpha / 255;
+    data[i + 1] = image.data[i + 1] * alpha / 255;
+    data[i + 2] = image.data[i + 2] * alpha / 255;
+    data[i + 3] = alpha;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+function unpremultiply(image: RgbaImage): RgbaImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3];
+    if (alpha === 0) continue;
+    data[i] = image.data[i] * 255 / alpha;
+    data[i + 1] = image.data[i + 1] * 255 / alpha;
+    data[i + 2] = image.data[i + 2] * 255 / alpha;
+    data[i + 3] = alpha;
+  }
+  return { width: image.width, height: image.height, data };
+}
@@ -0,0 +1,107 @@
+/**
+ * Effect Math
+ *
+ * Slider values → filter parameters, shared by the SVG filter chain (EffectStateManager,
+ * ReflectEffect) and the CPU reference renderer so both derive identical numbers.
+ * Everything here is pure and DOM-free.
+ *
+ * @module EffectMath
+ */
+
+import { APP_CONFIG } from '../config/constants';
+import type { DisplacementChannel } from './types';
+
+/** RGBA index of each displacement channel */
+export const CHANNEL_INDEX: Record<DisplacementChannel, number> = { R: 0, G: 1, B: 2, A: 3 };
+
+/** feDisplacementMap scales of the red, green and blue passes (chromatic aberration spreads R and B) */
+export function getDisplacementScales(
+  strength: number,
+  chromaticAberration: number,
+  imageWidth: number,
+  imageHeight: number
+): { red: number; green: number; blue: number } {
+  const { BASE_STRENGTH_DIVISOR, STRENGTH_FACTOR } = APP_CONFIG.EFFECT_CALCULATIONS;
+  const baseStrength = Math.max(imageWidth, imageHeight) / BASE_STRENGTH_DIVISOR;
+  const s = strength * (baseStrength / STRENGTH_FACTOR);
+  const ca = (strength / STRENGTH_FACTOR) * chromaticAberration * (baseStrength / STRENGTH_FACTOR);
+  return { red: s + ca, green: s, blue: s - ca };
+}
+
+/**
+ * Horizontal/vertical split of the displacement. feDisplacementMap has one scale for both
+ * axes, so the chain runs at the stronger axis' strength and the map's x and y channels
+ * are pulled towards the neutral 0.5 by `slopeX` / `slopeY` (see getMapAxesMatrix); a
+ * negative slope reverses that axis. Axes left null follow `strength`, which gives slopes of 1.
+ */
+export function getAxisDisplacement(
+  strength: number,
+  strengthX: number | null,
+  strengthY: number | null
+): { strength: number; slopeX: number; slopeY: number } {
+  const x = strengthX ?? strength;
+  const y = strengthY ?? strength;
+  const dominant = Math.abs(x) >= Math.abs(y) ? x : y;
+  if (dominant === 0) {
+    return { strength: 0, slopeX: 1, slopeY: 1 };
+  }
+  return { strength: dominant, slopeX: x / dominant, slopeY: y / dominant };
+}
+
+/**
+ * feColorMatrix values (5×4, row-major) that route the selected map channels into R (x)
+ * and G (y) and weight them by the axis slopes around 0.5. The displacement primitives
+ * keep reading R and G, so the X/Y weighting holds whichever channels are selected, one
+ * channel for both axes included. Selecting alpha makes the routed map opaque, otherwise
+ * its transparent areas would cancel the displacement.
+ */
+export function getMapAxesMatrix(
+  xChannel: DisplacementChannel,
+  yChannel: DisplacementChannel,
+  slopeX: number,
+  slopeY: number
+): number[] {
+  const route = (channel: DisplacementChannel, slope: number) => {
+    const row = [0, 0, 0, 0, 0.5 - 0.5 * slope];
+    row[CHANNEL_INDEX[channel]] = slope;
+    return row;
+  };
+  const alpha = xChannel === 'A' || yChannel === 'A' ? [0, 0, 0, 0, 1] : [0, 0, 0, 1, 0];
+  return [...route(xChannel, slopeX), ...route(yChannel, slopeY), 0, 0, 1, 0, 0, ...alpha];
+}
+
+/** stdDeviation of the source pre-blur */
+export function getSourceBlurDeviation(blur: number, imageWidth: number, imageHeight: number): number {
+  return blur * (Math.max(imageWidth, imageHeight) / APP_CONFIG.EFFECT_CALCULATIONS.BLUR_FACTOR);
+}
+
+/**
+ * stdDeviation of the displacement map blur ("Soft"). `previewRatio` is the preview
+ * downscale in effect when the value was set; the reflect map passes 1.
+ */
+export function getMapSoftDeviation(soft: number, scalePct: number, previewRatio = 1): number {
+  return soft * (scalePct / 100) * APP_CONFIG.EFFECT_CALCULATIONS.BLUR_SOFTNESS_FACTOR * previewRatio;
+}
+
+/** Preview downscale of an image against the engine's preview size */
+export function getPreviewRatio(previewMax: number, imageWidth: number, imageHeight: number): number {
+  return Math.min(1, previewMax / Math.max(imageWidth, imageHeight));
+}
+
+/**
+ * Reflect highlight curve (feFuncR/G/B table values) for a Sharpness of 0-100:
+ * everything below the threshold goes black, the rest is pulled towards white.
+ */
+export function getReflectContrastTable(sharpness: number): number[] {
+  const t = Math.max(0, Math.min(100, sharpness)) / 100;
+  const threshold = 0.60 + 0.35 * t;       // 0.60..0.95 — выше t → жестче отсечка тёмного/середины
+  const gamma = 1.0 - 0.5 * t;             // 1.0..0.5 — ниже → быстрее тянет к белому вверху
+  const samples = 21;                      // сглаженность кривой (16–33 ок)
+  const values: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    const x = i / (samples - 1);
+    const y = x < threshold ? 0 : Math.pow((x - threshold) / (1 - threshold || 1e-6), gamma);
+    values.push(Math.max(0, Math.min(1, y)));
+  }
+  return values;
+}
@@ -18,11 +18,16 @@
  */
 
 import { APP_CONFIG } from '../config/constants';
-import type { EffectSettings, SVGElements, EngineState } from './types';
+import { getAxisDisplacement, getDisplacementScales, getMapAxesMatrix, getMapSoftDeviation, getPreviewRatio, getSourceBlurDeviation } from './EffectMath';
+import type { DisplacementChannel, EffectSettings, SVGElements, EngineState } from './types';
 
 export class EffectStateManager {
   private settings: EffectSettings = {
     strength: 0,
+    strengthX: null,
+    strengthY: null,
+    xChannel: 'R',
+    yChannel: 'G',
     chromaticAberration: 0,
     blur: 0,
     soft: 0,
@@ -40,6 +45,24 @@ export class EffectStateManager {
     this.updateDisplacementScales();
   }
 
+  /** Horizontal strength; null links it back to `strength` */
+  setStrengthX(value: number | null): void {
+    this.settings.strengthX = value;
+    this.updateDisplacementScales();
+  }
+
+  /** Vertical strength; null links it back to `strength` */
+  setStrengthY(value: number | null): void {
+    this.settings.strengthY = value;
+    this.updateDisplacementScales();
+  }
+
+  setDisplacementChannels(xChannel: DisplacementChannel, yChannel: DisplacementChannel): void {
+    this.settings.xChannel = xChannel;
+    this.settings.yChannel = yChannel;
+    this.updateDisplacementScales();
+  }
+
   setChromaticAberration(value: number): void {
     this.settings.chromaticAberration = value;
     this.updateDisplacementScales();
@@ -55,9 +78,8 @@ export class EffectStateManager {
     // Soft now controls Gaussian blur on displacement map (feMapGaussianBlur)
     const feMapGaussianBlur = (this.svgElements as any).feMapGaussianBlur as SVGFEGaussianBlurElement | undefined;
     if (feMapGaussianBlur) {
-      const previewRatio = Math.min(1, this.engineState.previewMax / Math.max(this.engineState.imageWidth, this.engineState.imageHeight));
-      const baseSoftness = (this.engineState.scalePct / 100) * APP_CONFIG.EFFECT_CALCULATIONS.BLUR_SOFTNESS_FACTOR * previewRatio;
-      const stdDeviation = value * baseSoftness;
+      const { previewMax, imageWidth, imageHeight, scalePct } = this.engineState;
+      const stdDeviation = getMapSoftDeviation(value, scalePct, getPreviewRatio(previewMax, imageWidth, imageHeight));
       feMapGaussianBlur.setAttribute('stdDeviation', String(stdDeviation));
     }
   }
@@ -83,6 +105,18 @@ export class EffectStateManager {
     return this.settings.strength;
   }
 
+  getStrengthX(): number | null {
+    return this.settings.strengthX;
+  }
+
+  getStrengthY(): number | null {
+    return this.settings.strengthY;
+  }
+
+  getDisplacementChannels(): { xChannel: DisplacementChannel; yChannel: DisplacementChannel } {
+    return { xChannel: this.settings.xChannel, yChannel: this.settings.yChannel };
+  }
+
   getChromaticAberration(): number {
     return this.settings.chromaticAberration;
   }
@@ -106,28 +140,29 @@ export class EffectStateManager {
   // Private update methods
   private updateDisplacementScales(): void {
     const { imageWidth, imageHeight } = this.engineState;
-    const baseStrength = Math.max(imageWidth, imageHeight) / APP_CONFIG.EFFECT_CALCULATIONS.BASE_STRENGTH_DIVISOR;
-    const s = this.settings.strength * (baseStrength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR);
-    const ca = (this.settings.strength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR) * 
-               this.settings.chromaticAberration * 
-               (baseStrength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR);
+    const { strengthX, strengthY } = this.settings;
+    const axes = getAxisDisplacement(this.settings.strength, strengthX, strengthY);
+    const scales = getDisplacementScales(axes.strength, this.settings.chromaticAberration, imageWidth, imageHeight);
 
     if (this.svgElements.feDispMapR) {
-      this.svgElements.feDispMapR.setAttribute("scale", String(s + ca));
+      this.svgElements.feDispMapR.setAttribute("scale", String(scales.red));
     }
     if (this.svgElements.feDispMapG) {
-      this.svgElements.feDispMapG.setAttribute("scale", String(s));
+      this.svgElements.feDispMapG.setAttribute("scale", String(scales.green));
     }
     if (this.svgElements.feDispMapB) {
-      this.svgElements.feDispMapB.setAttribute("scale", String(s - ca));
+      this.svgElements.feDispMapB.setAttribute("scale", String(scales.blue));
+    }
+    if (this.svgElements.feMapAxes) {
+      const { xChannel, yChannel } = this.settings;
+      this.svgElements.feMapAxes.setAttribute('values', getMapAxesMatrix(xChannel, yChannel, axes.slopeX, axes.slopeY).join(' '));
     }
   }
 
   private updateBlur(): void {
     if (this.svgElements.feGaussianBlur) {
       const { imageWidth, imageHeight } = this.engineState;
-      const baseBlur = Math.max(imageWidth, imageHeight) / APP_CONFIG.EFFECT_CALCULATIONS.BLUR_FACTOR;
-      this.svgElements.feGaussianBlur.setAttribute('stdDeviation', String(this.settings.blur * baseBlur));
+      this.svgElements.feGaussianBlur.setAttribute('stdDeviation', String(getSourceBlurDeviation(this.settings.blur, imageWidth, imageHeight)));
     }
   }
 
@@ -149,6 +184,10 @@ export class EffectStateManager {
   clear(): void {
     this.settings = {
       strength: 0,
+      strengthX: null,
+      strengthY: null,
+      xChannel: 'R',
+      yChannel: 'G',
       chromaticAberration: 0,
       blur: 0,
       soft: 0,
@@ -26,7 +26,22 @@
 
 import { APP_CONFIG } from '../config/constants';
 import { debounce } from '../utils/debounce';
-import type { SVGElements, EngineState, CanvasResources, ObjectPool } from './types';
+import { compareRgbaImages, renderDisplacementOnCpu } from './CpuRenderer';
+import { CHANNEL_INDEX } from './EffectMath';
+import { renderGeneratorMap } from './MapGenerators';
+import type {
+  SVGElements,
+  EngineState,
+  CanvasResources,
+  ObjectPool,
+  RenderedTile,
+  RenderedTiles,
+  CpuEffectParams,
+  LayerOrientation,
+  MapGeneratorSpec,
+  RenderParityReport,
+  RgbaImage
+} from './types';
 import type { ReflectEffect } from '../components/ReflectEffect';
 import type { ImageLoader } from './ImageLoader';
 
@@ -147,6 +162,12 @@ export class FilterRenderer {
   
   // Guard against race conditions from async canvas.toBlob callbacks
   private renderGeneration: number = 0;
+
+  // Layer images with their X/Y channels moved into R/G, keyed by channel pair
+  private channelRemapCache = new WeakMap<HTMLImageElement, Map<string, HTMLCanvasElement>>();
+
+  // Procedural maps rendered at a drawn size, keyed by source and size, oldest first
+  private generatedMapCache = new Map<string, HTMLCanvasElement>();
   
   constructor(
     private svgElements: SVGElements,
@@ -189,19 +210,23 @@ export class FilterRenderer {
   }
 
   /**
-   * Draws tiled displacement map on canvas
+   * Draws tiled displacement map on canvas. A reoriented layer is filled with a pattern of
+   * one pre-scaled tile instead: the pattern repeats seamlessly at any angle, where rotated
+   * drawImage tiles leave anti-aliased seams between them.
    */
   private drawTiledMap(
     targetCtx: CanvasRenderingContext2D,
     canvasW: number,
     canvasH: number,
-    map: HTMLImageElement,
+    map: HTMLImageElement | HTMLCanvasElement,
     mapScale: number,
     scaleMode: 'uniform' | 'xOnly' | 'yOnly' = 'uniform',
     alignX: 'left' | 'center' | 'right' = 'left',
     alignY: 'top' | 'center' | 'bottom' = 'top',
     offsetX: number = 0,
-    offsetY: number = 0
+    offsetY: number = 0,
+    orientation: LayerOrientation = {},
+    generator: MapGeneratorSpec | null = null
   ): void {
     // Compute tile size with non-uniform scaling support
     let w = Math.max(1, map.width * mapScale);
@@ -214,6 +239,10 @@ export class FilterRenderer {
       // Scale only Y; fill X to 100%
       w = Math.max(1, canvasW);
     }
+    // Procedural maps: `map` only gives the nominal tile size, the tile is rendered at w×h
+    if (generator) {
+      map = this.getGeneratedMap(generator, w, h);
+    }
 
     // Skip drawing if canvas is too small
     if (canvasW <= 0 || canvasH <= 0) return;
@@ -234,6 +263,28 @@ export class FilterRenderer {
     originX += offsetX;
     originY += offsetY;
 
+    const layerMatrix = this.getOrientationMatrix(orientation, canvasW, canvasH);
+    if (layerMatrix) {
+      // Rasterize one tile at its drawn size (keeps SVG maps sharp), then repeat it
+      const tileW = Math.max(1, Math.round(w));
+      const tileH = Math.max(1, Math.round(h));
+      const tile = document.createElement('canvas');
+      tile.width = tileW;
+      tile.height = tileH;
+      const tileCtx = tile.getContext('2d')!;
+      tileCtx.imageSmoothingEnabled = targetCtx.imageSmoothingEnabled;
+      tileCtx.drawImage(map, 0, 0, tileW, tileH);
+
+      const pattern = targetCtx.createPattern(tile, 'repeat');
+      if (!pattern) return;
+      pattern.setTransform(
+        layerMatrix.translate(originX, originY).scale(w / tileW, h / tileH)
+      );
+      targetCtx.fillStyle = pattern;
+      targetCtx.fillRect(0, 0, canvasW, canvasH);
+      return;
+    }
+
     // Compute start indices so that first tile covers origin properly
     const startI = Math.floor((0 - originX) / w) - 1;
     const startJ = Math.floor((0 - originY) / h) - 1;
@@ -259,7 +310,7 @@ export class FilterRenderer {
     targetCtx: CanvasRenderingContext2D,
     canvasW: number,
     canvasH: number,
-    image: HTMLImageElement,
+    image: HTMLImageElement | HTMLCanvasElement,
     tiling: 'tiled' | 'stretched',
     scalePct: number,
     scaleMode: 'uniform' | 'xOnly' | 'yOnly',
@@ -268,7 +319,9 @@ export class FilterRenderer {
     alignX: 'left' | 'center' | 'right' = 'left',
     alignY: 'top' | 'center' | 'bottom' = 'top',
     offsetX: number = 0,
-    offsetY: number = 0
+    offsetY: number = 0,
+    orientation: LayerOrientation = {},
+    generator: MapGeneratorSpec | null = null
   ): void {
     targetCtx.save();
     targetCtx.globalAlpha = Math.max(0, Math.min(1, opacity));
@@ -276,18 +329,128 @@ export class FilterRenderer {
     if (tiling === 'tiled') {
       // Compute scale based on cachedBaseScale
       const mapScale = (scalePct * 0.01) * this.cachedBaseScale;
-      this.drawTiledMap(targetCtx, canvasW, canvasH, image, mapScale, scaleMode, alignX, alignY, offsetX, offsetY);
+      this.drawTiledMap(targetCtx, canvasW, canvasH, image, mapScale, scaleMode, alignX, alignY, offsetX, offsetY, orientation, generator);
     } else {
       // stretched
+      // Reoriented: enlarged about the centre just enough to still cover the whole canvas
+      const layerMatrix = this.getOrientationMatrix(orientation, canvasW, canvasH, true);
+      if (layerMatrix) {
+        targetCtx.setTransform(targetCtx.getTransform().multiply(layerMatrix));
+      }
       // For stretched, alignment/offset can shift the image before stretching via translate
       if (offsetX !== 0 || offsetY !== 0) {
         targetCtx.translate(offsetX, offsetY);
       }
-      targetCtx.drawImage(image, 0, 0, canvasW, canvasH);
+      targetCtx.drawImage(generator ? this.getGeneratedMap(generator, canvasW, canvasH) : image, 0, 0, canvasW, canvasH);
     }
     targetCtx.restore();
   }
 
+  /**
+   * Canvas-space matrix of a layer's orientation about the canvas centre, or null when the
+   * layer keeps its orientation. Angles do not depend on resolution, so the preview and
+   * the full-size export map stay the same shape. With `cover`, the transform is scaled up
+   * until the oriented canvas rectangle still covers every canvas corner (stretched
+   * layers would otherwise leave the corners without a map).
+   */
+  private getOrientationMatrix(orientation: LayerOrientation, canvasW: number, canvasH: number, cover = false): DOMMatrix | null {
+    const { rotation = 0, flipX = false, flipY = false, skewX = 0, skewY = 0 } = orientation;
+    if (!rotation && !flipX && !flipY && !skewX && !skewY) return null;
+
+    const linear = new DOMMatrix()
+      .rotateSelf(rotation)
+      .skewXSelf(skewX)
+      .skewYSelf(skewY)
+      .scaleSelf(flipX ? -1 : 1, flipY ? -1 : 1);
+
+    let coverScale = 1;
+    if (cover) {
+      const inverse = linear.inverse();
+      for (const [x, y] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+        const corner = inverse.transformPoint(new DOMPoint(x * canvasW / 2, y * canvasH / 2));
+        coverScale = Math.max(coverScale, Math.abs(corner.x) / (canvasW / 2), Math.abs(corner.y) / (canvasH / 2));
+      }
+    }
+
+    return new DOMMatrix()
+      .translateSelf(canvasW / 2, canvasH / 2)
+      .multiplySelf(linear)
+      .scaleSelf(coverScale, coverScale)
+      .translateSelf(-canvasW / 2, -canvasH / 2);
+  }
+
+  /** Procedural map rendered at exactly `width`×`height` (rounded), so it stays sharp at any scale */
+  private getGeneratedMap(spec: MapGeneratorSpec, width: number, height: number): HTMLCanvasElement {
+    const w = Math.max(1, Math.round(width));
+    const h = Math.max(1, Math.round(height));
+    const key = `${spec.src}@${w}x${h}`;
+    const cached = this.generatedMapCache.get(key);
+    if (cached) {
+      // Refresh recency
+      this.generatedMapCache.delete(key);
+      this.generatedMapCache.set(key, cached);
+      return cached;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = w;
+    canvas.height = h;
+    canvas.getContext('2d')!.putImageData(new ImageData(renderGeneratorMap(spec, w, h), w, h), 0, 0);
+    this.generatedMapCache.set(key, canvas);
+    while (this.generatedMapCache.size > APP_CONFIG.PERFORMANCE.GENERATED_MAP_CACHE_SIZE) {
+      const oldestKey = this.generatedMapCache.keys().next().value as string;
+      this.generatedMapCache.delete(oldestKey);
+    }
+    return canvas;
+  }
+
+  /**
+   * Layer image with its declared X/Y channels moved into R and G, the convention of the
+   * composited map, so maps authored with Y in blue or alpha stack with the others.
+   * Picking alpha for either axis makes the copy opaque.
+   */
+  private getLayerSource(layer: NonNullable<EngineState['layerImages']>[number]): HTMLImageElement | HTMLCanvasElement {
+    const xChannel = layer.xChannel ?? 'R';
+    const yChannel = layer.yChannel ?? 'G';
+    // Generated maps are drawn from their own render, which already holds X in R and Y in G
+    if (layer.generator || (xChannel === 'R' && yChannel === 'G')) return layer.image;
+
+    const key = `${xChannel}${yChannel}`;
+    let remapped = this.channelRemapCache.get(layer.image);
+    const cached = remapped?.get(key);
+    if (cached) return cached;
+
+    const width = layer.image.naturalWidth || layer.image.width;
+    const height = layer.image.naturalHeight || layer.image.height;
+    if (!width || !height) return layer.image;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(layer.image, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+    const xIndex = CHANNEL_INDEX[xChannel];
+    const yIndex = CHANNEL_INDEX[yChannel];
+    const opaque = xIndex === 3 || yIndex === 3;
+    for (let i = 0; i < data.length; i += 4) {
+      const x = data[i + xIndex];
+      const y = data[i + yIndex];
+      data[i] = x;
+      data[i + 1] = y;
+      if (opaque) data[i + 3] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    if (!remapped) {
+      remapped = new Map();
+      this.channelRemapCache.set(layer.image, remapped);
+    }
+    remapped.set(key, canvas);
+    return canvas;
+  }
+
   /**
    * Updates cached scale calculations when image or map changes
    * Call this when setMapImage or image dimensions change
@@ -355,7 +518,7 @@ export class FilterRenderer {
           ctx,
           canvas.width,
           canvas.height,
-          layer.image,
+          this.getLayerSource(layer),
           layer.tiling,
           // Apply ratio to percent scale so thumbnails (with smaller cnv) match Live Preview
           (typeof layer.scale === 'number' ? layer.scale : this.engineState.scalePct) * ratio,
@@ -365,7 +528,9 @@ export class FilterRenderer {
           layer.alignX || 'left',
           layer.alignY || 'top',
           layer.offsetX || 0,
-          layer.offsetY || 0
+          layer.offsetY || 0,
+          layer,
+          layer.generator ?? null
         );
       }
     } else {
@@ -509,7 +674,255 @@ export class FilterRenderer {
     const image = objectPool?.getImage() || new Image();
     
     let svgUrl: string | null = null;
+    const endExport = this.beginExport();
+
+    try {
+      // Serialize SVG to string
+      const svgString = xmlSerializer.serializeToString(svg);
+      const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
+      svgUrl = URL.createObjectURL(svgBlob);
+      
+      // Load SVG as image
+      await this.loadImageFromUrl(image, svgUrl);
+      
+      // Draw to canvas
+      renderCtx.drawImage(image, 0, 0, finalWidth, finalHeight);
+      
+      // Convert canvas to Uint8Array
+      const imageBytes = await this.canvasToUint8Array(renderCanvas, objectPool);
+      
+      return imageBytes;
+      
+    } finally {
+      endExport();
+      
+      // Cleanup: return objects to pool and revoke URL
+      if (objectPool) {
+        objectPool.returnXMLSerializer(xmlSerializer);
+        objectPool.returnImage(image);
+      }
+      
+      if (svgUrl && APP_CONFIG.PERFORMANCE.AUTO_CLEANUP_URLS) {
+        URL.revokeObjectURL(svgUrl);
+      }
+      
+      // Optional: Force garbage collection in development
+      if (APP_CONFIG.PERFORMANCE.FORCE_GC_AFTER_RENDER && 'gc' in window) {
+        (window as any).gc();
+      }
+    }
+  }
+
+  /**
+   * Renders the result at full source resolution as tiles of at most Figma's image size.
+   * Each tile is rendered from an SVG copy whose viewBox covers the tile plus an overlap
+   * margin, then cropped to the tile: displacement and blur read pixels beyond the tile
+   * edge, and the map texture is one full-size image in user space, so the displacement
+   * field stays continuous across seams. A result that fits Figma's limit is one tile.
+   */
+  async renderTiles(): Promise<RenderedTiles> {
+    const { svg } = this.svgElements;
+    const { renderCanvas, renderCtx, objectPool } = this.canvasResources;
+    const { FIGMA_ABSOLUTE_LIMIT, TILED_EXPORT } = APP_CONFIG.QUALITY;
+    const vb = svg.viewBox.baseVal;
+    const width = Math.max(1, Math.round(vb.width));
+    const height = Math.max(1, Math.round(vb.height));
+
+    if (width <= FIGMA_ABSOLUTE_LIMIT && height <= FIGMA_ABSOLUTE_LIMIT) {
+      return { width, height, tiles: [{ x: 0, y: 0, width, height, imageBytes: await this.renderToBytes() }] };
+    }
+    if (Math.max(width, height) > TILED_EXPORT.MAX_SIDE) {
+      throw new Error(`Image is too large for tiled export (max ${TILED_EXPORT.MAX_SIDE}px per side)`);
+    }
+
+    const overlap = this.getTileOverlap();
+    const xmlSerializer = objectPool?.getXMLSerializer() || new XMLSerializer();
+    const image = objectPool?.getImage() || new Image();
+    const endExport = this.beginExport();
+    const tiles: RenderedTile[] = [];
+
+    try {
+      // The copy carries the inlined full-resolution textures set up by beginExport
+      const tileSvg = svg.cloneNode(true) as SVGSVGElement;
+      tileSvg.setAttribute('preserveAspectRatio', 'none');
+
+      for (let y = 0; y < height; y += FIGMA_ABSOLUTE_LIMIT) {
+        for (let x = 0; x < width; x += FIGMA_ABSOLUTE_LIMIT) {
+          const tileWidth = Math.min(FIGMA_ABSOLUTE_LIMIT, width - x);
+          const tileHeight = Math.min(FIGMA_ABSOLUTE_LIMIT, height - y);
+          const left = Math.max(0, x - overlap);
+          const top = Math.max(0, y - overlap);
+          const regionWidth = Math.min(width, x + tileWidth + overlap) - left;
+          const regionHeight = Math.min(height, y + tileHeight + overlap) - top;
+          tileSvg.setAttribute('viewBox', `${left} ${top} ${regionWidth} ${regionHeight}`);
+          tileSvg.setAttribute('width', String(regionWidth));
+          tileSvg.setAttribute('height', String(regionHeight));
+
+          const svgUrl = URL.createObjectURL(
+            new Blob([xmlSerializer.serializeToString(tileSvg)], { type: 'image/svg+xml;charset=utf-8' })
+          );
+          try {
+            await this.loadImageFromUrl(image, svgUrl);
+          } finally {
+            URL.revokeObjectURL(svgUrl);
+          }
+
+          renderCanvas.width = tileWidth;
+          renderCanvas.height = tileHeight;
+          renderCtx.setTransform(1, 0, 0, 1, 0, 0);
+          renderCtx.imageSmoothingEnabled = APP_CONFIG.QUALITY.IMAGE_SMOOTHING_ENABLED;
+          renderCtx.clearRect(0, 0, tileWidth, tileHeight);
+          renderCtx.drawImage(image, x - left, y - top, tileWidth, tileHeight, 0, 0, tileWidth, tileHeight);
+          tiles.push({ x, y, width: tileWidth, height: tileHeight, imageBytes: await this.canvasToUint8Array(renderCanvas, objectPool) });
+        }
+      }
+      return { width, height, tiles };
+    } finally {
+      endExport();
+      if (objectPool) {
+        objectPool.returnXMLSerializer(xmlSerializer);
+        objectPool.returnImage(image);
+      }
+    }
+  }
+
+  /**
+   * Farthest a tile's pixels can be influenced from outside it: the largest displacement
+   * (feDisplacementMap moves by at most scale / 2; the X/Y axis weighting of the map never
+   * exceeds a slope of 1, so it only shortens that) plus three standard deviations of the
+   * source and map blurs.
+   */
+  private getTileOverlap(): number {
+    const { feDispMapR, feDispMapG, feDispMapB, feDispMapDissolve, feGaussianBlur, feMapGaussianBlur } = this.svgElements;
+    const numberAttr = (el: Element | null, name: string) => Math.abs(parseFloat(el?.getAttribute(name) || '0')) || 0;
+    const displacement = Math.max(
+      ...[feDispMapR, feDispMapG, feDispMapB, feDispMapDissolve].map((el) => numberAttr(el, 'scale') / 2)
+    );
+    const blur = 3 * (numberAttr(feGaussianBlur, 'stdDeviation') + numberAttr(feMapGaussianBlur, 'stdDeviation'));
+    return Math.ceil(displacement + blur) + APP_CONFIG.QUALITY.TILED_EXPORT.MIN_OVERLAP;
+  }
+
+  /**
+   * Draws the displacement map at FULL SVG viewBox resolution (ratio = 1) into the map canvas.
+   * Returns false when no map is loaded (the canvas keeps the preview texture).
+   */
+  private drawExportMap(): boolean {
+    const { canvas, ctx } = this.canvasResources;
+    const { mapImage } = this.engineState;
+    if (!mapImage) {
+      return false;
+    }
+
+    const vb = this.svgElements.svg.viewBox.baseVal;
+    const fullW = Math.max(1, vb.width);
+    const fullH = Math.max(1, vb.height);
+    canvas.width = fullW;
+    canvas.height = fullH;
+    ctx.clearRect(0, 0, fullW, fullH);
+    
+    // Compute scale using cachedBaseScale without preview ratio downscaling
+    const scalePct = this.engineState.scalePct;
+    const scaleForExport = (scalePct * 0.01) * this.cachedBaseScale;
     
+    // Draw tiled map
+    ctx.imageSmoothingEnabled = APP_CONFIG.QUALITY.IMAGE_SMOOTHING_ENABLED;
+    if (this.engineState.layerImages && this.engineState.layerImages.length > 0) {
+      for (const layer of this.engineState.layerImages) {
+        this.drawLayer(
+          ctx,
+          fullW,
+          fullH,
+          this.getLayerSource(layer),
+          layer.tiling,
+          typeof layer.scale === 'number' ? layer.scale : this.engineState.scalePct,
+          layer.scaleMode || 'uniform',
+          layer.opacity,
+          layer.blendMode,
+          layer.alignX || 'left',
+          layer.alignY || 'top',
+          layer.offsetX || 0,
+          layer.offsetY || 0,
+          layer,
+          layer.generator ?? null
+        );
+      }
+    } else {
+      this.drawTiledMap(ctx, fullW, fullH, mapImage, scaleForExport);
+    }
+    return true;
+  }
+
+  /**
+   * Renders the current state with the CPU reference renderer from the same inputs as the
+   * SVG export: the original (unpadded) source and the full-resolution map.
+   */
+  async renderOnCpu(effect: CpuEffectParams): Promise<RgbaImage> {
+    const { canvas, ctx, tempCanvas, tempCtx, objectPool } = this.canvasResources;
+    const { imageWidth, imageHeight, scalePct, filterMarginPercent, previewMax } = this.engineState;
+    const texture = this.imageLoader?.getOriginalMirroredTexture();
+    if (!texture) {
+      throw new Error('No source image loaded');
+    }
+
+    // The mirrored texture pads the image equally on all sides; cut the image back out
+    const image = objectPool?.getImage() || new Image();
+    let source: RgbaImage;
+    try {
+      await this.loadImageFromUrl(image, texture);
+      const padding = (image.width - imageWidth) / 2;
+      tempCanvas.width = imageWidth;
+      tempCanvas.height = imageHeight;
+      tempCtx.clearRect(0, 0, imageWidth, imageHeight);
+      tempCtx.drawImage(image, -padding, -padding);
+      source = tempCtx.getImageData(0, 0, imageWidth, imageHeight);
+    } finally {
+      objectPool?.returnImage(image);
+    }
+
+    const map = this.drawExportMap() ? ctx.getImageData(0, 0, canvas.width, canvas.height) : null;
+
+    return renderDisplacementOnCpu({ ...effect, source, map, state: { scalePct, filterMarginPercent, previewMax } });
+  }
+
+  /** CPU reference render encoded as PNG */
+  async renderCpuToBytes(effect: CpuEffectParams): Promise<Uint8Array> {
+    const { renderCanvas, renderCtx, objectPool } = this.canvasResources;
+    const result = await this.renderOnCpu(effect);
+    renderCanvas.width = result.width;
+    renderCanvas.height = result.height;
+    renderCtx.putImageData(new ImageData(result.data, result.width, result.height), 0, 0);
+    return this.canvasToUint8Array(renderCanvas, objectPool);
+  }
+
+  /** Renders the current state with the SVG filter and on the CPU, and compares the results */
+  async checkParity(effect: CpuEffectParams, tolerance?: number): Promise<RenderParityReport> {
+    const { renderCanvas, renderCtx, objectPool } = this.canvasResources;
+    const cpu = await this.renderOnCpu(effect);
+    const svgBytes = await this.renderToBytes();
+
+    const image = objectPool?.getImage() || new Image();
+    const url = URL.createObjectURL(new Blob([svgBytes], { type: 'image/png' }));
+    try {
+      await this.loadImageFromUrl(image, url);
+      renderCanvas.width = cpu.width;
+      renderCanvas.height = cpu.height;
+      renderCtx.setTransform(1, 0, 0, 1, 0, 0);
+      renderCtx.clearRect(0, 0, cpu.width, cpu.height);
+      // Exports past Figma's limit come back downscaled; compare at the source size
+      renderCtx.drawImage(image, 0, 0, cpu.width, cpu.height);
+      return compareRgbaImages(cpu, renderCtx.getImageData(0, 0, cpu.width, cpu.height), tolerance);
+    } finally {
+      URL.revokeObjectURL(url);
+      objectPool?.returnImage(image);
+    }
+  }
+
+  /**
+   * Prepares the live SVG for a full-quality export and returns the function that puts the
+   * preview back: the displacement map is re-rendered at full viewBox resolution and inlined,
+   * and the source swaps to the original texture (unless MATCH_PREVIEW_ON_EXPORT).
+   */
+  private beginExport(): () => void {
     // RACE CONDITION FIX: Get texture snapshot for safe swapping
     const textureSnapshot = this.imageLoader?.getTextureSnapshot() || null;
     let originalTextureSwapped = false;
@@ -518,101 +931,46 @@ export class FilterRenderer {
     // 1) Save current feImg href to restore later
     const originalFeImgHref = this.svgElements.feImg.getAttribute('href');
     const prepareHighResFeImgForExport = () => {
-      const { canvas, ctx } = this.canvasResources;
-      const { mapImage } = this.engineState;
+      const { canvas } = this.canvasResources;
       
       // If there is no displacement map yet, fall back to existing preview texture
-      if (!mapImage) {
+      if (!this.drawExportMap()) {
         const fallbackUrl = canvas.toDataURL('image/png');
         this.svgElements.feImg.setAttribute('href', fallbackUrl);
         return;
       }
       
-      // Render the tiled map at FULL SVG viewBox resolution (ratio = 1)
-      const fullW = Math.max(1, vb.width);
-      const fullH = Math.max(1, vb.height);
-      canvas.width = fullW;
-      canvas.height = fullH;
-      ctx.clearRect(0, 0, fullW, fullH);
-      
-      // Compute scale using cachedBaseScale without preview ratio downscaling
-      const scalePct = this.engineState.scalePct;
-      const scaleForExport = (scalePct * 0.01) * this.cachedBaseScale;
-      
-      // Draw tiled map
-      ctx.imageSmoothingEnabled = APP_CONFIG.QUALITY.IMAGE_SMOOTHING_ENABLED;
-      if (this.engineState.layerImages && this.engineState.layerImages.length > 0) {
-        for (const layer of this.engineState.layerImages) {
-          this.drawLayer(
-            ctx,
-            fullW,
-            fullH,
-            layer.image,
-            layer.tiling,
-            typeof layer.scale === 'number' ? layer.scale : this.engineState.scalePct,
-            layer.scaleMode || 'uniform',
-            layer.opacity,
-            layer.blendMode,
-            layer.alignX || 'left',
-            layer.alignY || 'top',
-            layer.offsetX || 0,
-            layer.offsetY || 0
-          );
-        }
-      } else {
-        if (mapImage) {
-          this.drawTiledMap(ctx, fullW, fullH, mapImage, scaleForExport);
-        }
-      }
-      
       // Ensure feImg attributes match the full SVG space
-      this.svgElements.feImg.setAttribute('width', String(fullW));
-      this.svgElements.feImg.setAttribute('height', String(fullH));
+      this.svgElements.feImg.setAttribute('width', String(canvas.width));
+      this.svgElements.feImg.setAttribute('height', String(canvas.height));
       
       // Inline as data URL for export
       const dataUrl = canvas.toDataURL('image/png');
       this.svgElements.feImg.setAttribute('href', dataUrl);
     };
 
-    try {
-      // IMPORTANT: inline a high-res displacement texture so export is not limited by preview quality
-      prepareHighResFeImgForExport();
-      // Optional: for strict visual parity, keep preview texture instead of swapping to original
-      if (!APP_CONFIG.QUALITY.MATCH_PREVIEW_ON_EXPORT && this.imageLoader && textureSnapshot) {
-        const { originalTexture, previewTexture, imageId } = textureSnapshot;
-        if (originalTexture && previewTexture && originalTexture !== previewTexture) {
-          const currentImageId = this.imageLoader.getCurrentImageId();
-          if (currentImageId === imageId) {
-            this.svgElements.feSourceImg.setAttribute('href', originalTexture);
-            originalTextureSwapped = true;
-            if (console.info && APP_CONFIG.LICENSE.DEV_MODE_ENABLED) {
-              console.info('Final render: using original high-quality texture');
-            }
-          } else {
-            if (console.info && APP_CONFIG.LICENSE.DEV_MODE_ENABLED) {
-              console.info('Final render: skipping texture swap due to image change');
-            }
+    // IMPORTANT: inline a high-res displacement texture so export is not limited by preview quality
+    prepareHighResFeImgForExport();
+    // Optional: for strict visual parity, keep preview texture instead of swapping to original
+    if (!APP_CONFIG.QUALITY.MATCH_PREVIEW_ON_EXPORT && this.imageLoader && textureSnapshot) {
+      const { originalTexture, previewTexture, imageId } = textureSnapshot;
+      if (originalTexture && previewTexture && originalTexture !== previewTexture) {
+        const currentImageId = this.imageLoader.getCurrentImageId();
+        if (currentImageId === imageId) {
+          this.svgElements.feSourceImg.setAttribute('href', originalTexture);
+          originalTextureSwapped = true;
+          if (console.info && APP_CONFIG.LICENSE.DEV_MODE_ENABLED) {
+            console.info('Final render: using original high-quality texture');
+          }
+        } else {
+          if (console.info && APP_CONFIG.LICENSE.DEV_MODE_ENABLED) {
+            console.info('Final render: skipping texture swap due to image change');
           }
         }
       }
-      
-      // Serialize SVG to string
-      const svgString = xmlSerializer.serializeToString(svg);
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-      svgUrl = URL.createObjectURL(svgBlob);
-      
-      // Load SVG as image
-      await this.loadImageFromUrl(image, svgUrl);
-      
-      // Draw to canvas
-      renderCtx.drawImage(image, 0, 0, finalWidth, finalHeight);
-      
-      // Convert canvas to Uint8Array
-      const imageBytes = await this.canvasToUint8Array(renderCanvas, objectPool);
-      
-      return imageBytes;
-      
-    } finally {
+    }
+
+    return () => {
       // Restore feImg href after export
       if (originalFeImgHref !== null) {
         this.svgElements.feImg.setAttribute('href', originalFeImgHref);
@@ -624,22 +982,7 @@ export class FilterRenderer {
           console.info('Final render complete: restored preview texture for Live Preview');
         }
       }
-      
-      // Cleanup: return objects to pool and revoke URL
-      if (objectPool) {
-        objectPool.returnXMLSerializer(xmlSerializer);
-        objectPool.returnImage(image);
-      }
-      
-      if (svgUrl && APP_CONFIG.PERFORMANCE.AUTO_CLEANUP_URLS) {
-        URL.revokeObjectURL(svgUrl);
-      }
-      
-      // Optional: Force garbage collection in development
-      if (APP_CONFIG.PERFORMANCE.FORCE_GC_AFTER_RENDER && 'gc' in window) {
-        (window as any).gc();
-      }
-    }
+    };
   }
 
   /**
@@ -7,6 +7,7 @@
  * 
  * Key features:
  * - Multi-source image loading (Uint8Array, File objects, URLs, HTMLImageElement)
+ * - Procedural `generator://` maps (a preview image here; FilterRenderer renders them at draw size)
  * - Automatic mirrored texture generation for seamless edge handling
  * - Dynamic SVG filter region calculation based on image dimensions
  * - Race condition protection for concurrent load operations
@@ -22,6 +23,7 @@ import { processImageForPreview } from '../utils/image';
 import { resolveResourceUrl } from '../utils/resource-resolver';
 import { APP_CONFIG } from '../config/constants';
 import { showSpinner } from '../utils/spinner';
+import { isGeneratorSrc, parseGeneratorSrc, renderGeneratorMap } from './MapGenerators';
 import type { SVGElements, EngineState, MapSource, MultiLayerMapSource } from './types';
 
 export class ImageLoader {
@@ -70,6 +72,7 @@ export class ImageLoader {
    * Load an image with URL→Image cache and in-flight de-duplication.
    * Accepts string URL, File, or HTMLImageElement.
    * Automatically resolves resource:// URLs through ResourceManager.
+   * generator:// sources become their map at its nominal tile size, cached under the source.
    */
   private async loadImageWithCache(src: string | File | HTMLImageElement): Promise<HTMLImageElement> {
     // Direct image objects bypass cache; they are already decoded
@@ -81,7 +84,7 @@ export class ImageLoader {
     let url: string;
     if (typeof src === 'string') {
       // Resolve resource:// URLs through ResourceManager
-      url = await resolveResourceUrl(src);
+      url = isGeneratorSrc(src) ? src : await resolveResourceUrl(src);
     } else {
       // File object to data URL
       url = await new Promise<string>((res) => {
@@ -103,6 +106,9 @@ export class ImageLoader {
     const inflight = ImageLoader.inflightLoads.get(key);
     if (inflight) return inflight;
 
+    // Throws MapGeneratorError for a malformed generator source, like a failed load
+    const imageUrl = isGeneratorSrc(url) ? ImageLoader.renderGeneratorPreview(url) : url;
+
     const promise = new Promise<HTMLImageElement>((resolve, reject) => {
       const img = new Image();
       img.crossOrigin = 'anonymous';
@@ -117,13 +123,24 @@ export class ImageLoader {
         ImageLoader.inflightLoads.delete(key);
         reject(new Error('Failed to load image: ' + key));
       };
-      img.src = url;
+      img.src = imageUrl;
     });
 
     ImageLoader.inflightLoads.set(key, promise);
     return promise;
   }
 
+  /** PNG data URL of a generator map at its nominal `size` */
+  private static renderGeneratorPreview(src: string): string {
+    const spec = parseGeneratorSrc(src);
+    const size = spec.params.size;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')!.putImageData(new ImageData(renderGeneratorMap(spec, size, size), size, size), 0, 0);
+    return canvas.toDataURL('image/png');
+  }
+
   /**
    * Loads source image from bytes and sets up SVG
    * Uses preview-optimized textures for Live Preview performance
@@ -262,15 +279,23 @@ export class ImageLoader {
         const spec = multi.layers[i];
         return {
           image,
+          generator: typeof spec.src === 'string' && isGeneratorSrc(spec.src) ? parseGeneratorSrc(spec.src) : undefined,
           tiling: spec.tiling,
           scale: spec.scale,
+          xChannel: spec.xChannel,
+          yChannel: spec.yChannel,
           scaleMode: spec.scaleMode,
           opacity: typeof spec.opacity === 'number' ? spec.opacity : 1,
           blendMode: spec.blendMode || 'source-over',
           alignX: spec.alignX,
           alignY: spec.alignY,
           offsetX: spec.offsetX,
-          offsetY: spec.offsetY
+          offsetY: spec.offsetY,
+          rotation: spec.rotation,
+          flipX: spec.flipX,
+          flipY: spec.flipY,
+          skewX: spec.skewX,
+          skewY: spec.skewY
         };
       });
       // Back-compat: set first image as mapImage
@@ -325,6 +350,7 @@ export class ImageLoader {
         this.engineState.layerImages = [
           {
             image: img,
+            generator: isGeneratorSrc(url) ? parseGeneratorSrc(url) : undefined,
             tiling: 'tiled',
             opacity: 1,
             blendMode: 'source-over'
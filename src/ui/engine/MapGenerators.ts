@@ -0,0 +1,318 @@
+/**
+ * Map Generators
+ *
+ * Procedural displacement maps used as layer sources: `generator://<name>?<param>=<number>&…`,
+ * e.g. `generator://waves?freq=12&amp=1&angle=30`. They are rendered when the map is drawn,
+ * at the size it is drawn at (one tile of a tiled layer, the whole canvas of a stretched
+ * one), so they never pixelate and need no network. Positions are relative to the rendered
+ * area, so the preview and the full-size export show the same pattern, and every parameter
+ * is continuous: stepping `phase`, `time`, `angle`… animates it.
+ *
+ * Output follows the map convention: X displacement in R, Y in G, 0.5 neutral, opaque.
+ * Everything here is pure and DOM-free.
+ *
+ * @module MapGenerators
+ */
+
+import type { MapGeneratorName, MapGeneratorSpec } from './types';
+
+export const GENERATOR_PREFIX = 'generator://';
+
+export class MapGeneratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapGeneratorError';
+  }
+}
+
+type Params = Record<string, number>;
+
+/** Writes the displacement at (u, v) into `out`, components in -1..1 */
+type Sampler = (out: number[], u: number, v: number, frame: Frame, p: Params) => void;
+
+/** Area being rendered: `kx`/`ky` turn 0..1 positions into short-side units, so circles stay round */
+interface Frame {
+  kx: number;
+  ky: number;
+}
+
+interface GeneratorDefinition {
+  defaults: Params;
+  sample: Sampler;
+}
+
+/** Params every generator accepts. `size` is the tile size in px at 100% scale */
+const COMMON_DEFAULTS: Params = { size: 512 };
+
+/**
+ * Range each param is clamped to when parsed, so a pasted or imported source cannot ask for
+ * more detail than a map can show (or for values whose sines and hashes stop being numbers).
+ * Angles and phases are in degrees, `cx`/`cy`/`radius` in rendered-area units.
+ */
+const PARAM_RANGES: Record<string, [number, number]> = {
+  size: [16, 4096],
+  freq: [0, 256],
+  amp: [-8, 8],
+  angle: [-3600, 3600],
+  phase: [-36000, 36000],
+  decay: [0, 64],
+  cx: [-1, 2],
+  cy: [-1, 2],
+  radius: [0, 4],
+  scale: [1, 256],
+  octaves: [1, 8],
+  cells: [1, 256],
+  jitter: [0, 1],
+  seed: [0, 1e6],
+  time: [-1000, 1000]
+};
+
+const TAU = Math.PI * 2;
+const DEG = Math.PI / 180;
+
+const GENERATORS: Record<MapGeneratorName, GeneratorDefinition> = {
+  // Sine bands along `angle`, displacing across them (wavy lines)
+  waves: {
+    defaults: { freq: 8, amp: 1, angle: 0, phase: 0 },
+    sample(out, u, v, frame, p) {
+      const a = p.angle * DEG;
+      const t = (u - 0.5) * frame.kx * Math.cos(a) + (v - 0.5) * frame.ky * Math.sin(a);
+      const value = p.amp * Math.sin(TAU * p.freq * t + p.phase * DEG);
+      out[0] = -Math.sin(a) * value;
+      out[1] = Math.cos(a) * value;
+    }
+  },
+
+  // Damped sine rings spreading from (cx, cy); raising `phase` moves them outwards
+  ripples: {
+    defaults: { freq: 10, amp: 1, decay: 2, phase: 0, cx: 0.5, cy: 0.5 },
+    sample(out, u, v, frame, p) {
+      const x = (u - p.cx) * frame.kx;
+      const y = (v - p.cy) * frame.ky;
+      const r = Math.hypot(x, y);
+      const value = r > 0 ? p.amp * Math.sin(TAU * p.freq * r - p.phase * DEG) * Math.exp(-p.decay * r) / r : 0;
+      out[0] = x * value;
+      out[1] = y * value;
+    }
+  },
+
+  // Concentric lens rings around (cx, cy), sawtooth across each ring like a Fresnel lens
+  rings: {
+    defaults: { freq: 8, amp: 1, phase: 0, cx: 0.5, cy: 0.5 },
+    sample(out, u, v, frame, p) {
+      const x = (u - p.cx) * frame.kx;
+      const y = (v - p.cy) * frame.ky;
+      const r = Math.hypot(x, y);
+      const value = r > 0 ? p.amp * (2 * fract(p.freq * r - p.phase / 360) - 1) / r : 0;
+      out[0] = x * value;
+      out[1] = y * value;
+    }
+  },
+
+  // Perlin gradient noise, one field per axis; `scale` noise cells per tile, `time` swirls it
+  noise: {
+    defaults: { scale: 4, octaves: 4, amp: 1, seed: 1, time: 0 },
+    sample(out, u, v, _frame, p) {
+      out[0] = p.amp * fractalNoise(u, v, p, p.seed);
+      out[1] = p.amp * fractalNoise(u, v, p, p.seed + 7919);
+    }
+  },
+
+  // Voronoi cells, each pulling towards its site like a facet; `time` drifts the sites
+  voronoi: {
+    defaults: { cells: 6, jitter: 1, amp: 1, seed: 1, time: 0 },
+    sample(out, u, v, _frame, p) {
+      const n = Math.max(1, Math.round(p.cells));
+      const jitter = clamp(p.jitter, 0, 1);
+      const px = u * n;
+      const py = v * n;
+      const ci = Math.floor(px);
+      const cj = Math.floor(py);
+      let best = Infinity;
+      out[0] = 0;
+      out[1] = 0;
+      for (let dj = -1; dj <= 1; dj++) {
+        for (let di = -1; di <= 1; di++) {
+          const i = ci + di;
+          const j = cj + dj;
+          // Sites stay within their cell (±0.35 jitter, 0.15 drift), so 3×3 cells always hold the nearest
+          const wi = mod(i, n);
+          const wj = mod(j, n);
+          const drift = TAU * (p.time + hash(wi, wj, p.seed + 2));
+          const sx = i + 0.5 + jitter * (0.7 * (hash(wi, wj, p.seed) - 0.5) + 0.15 * Math.cos(drift));
+          const sy = j + 0.5 + jitter * (0.7 * (hash(wi, wj, p.seed + 1) - 0.5) + 0.15 * Math.sin(drift));
+          const d = (sx - px) * (sx - px) + (sy - py) * (sy - py);
+          if (d < best) {
+            best = d;
+            out[0] = p.amp * (sx - px);
+            out[1] = p.amp * (sy - py);
+          }
+        }
+      }
+    }
+  },
+
+  // Straight ribs along `angle` (fluted glass): each rib a cylindrical lens displacing across it
+  ribs: {
+    defaults: { freq: 12, amp: 1, angle: 0, phase: 0 },
+    sample(out, u, v, frame, p) {
+      const a = p.angle * DEG;
+      const t = (u - 0.5) * frame.kx * Math.cos(a) + (v - 0.5) * frame.ky * Math.sin(a);
+      const value = p.amp * (2 * fract(p.freq * t + p.phase / 360) - 1);
+      out[0] = Math.cos(a) * value;
+      out[1] = Math.sin(a) * value;
+    }
+  },
+
+  // Twirl of up to `angle` degrees at (cx, cy), fading out at `radius` (short-side units)
+  twirl: {
+    defaults: { angle: 180, radius: 0.5, amp: 1, cx: 0.5, cy: 0.5 },
+    sample(out, u, v, frame, p) {
+      const x = (u - p.cx) * frame.kx;
+      const y = (v - p.cy) * frame.ky;
+      const r = Math.hypot(x, y);
+      out[0] = 0;
+      out[1] = 0;
+      if (p.radius <= 0 || r >= p.radius) return;
+      const falloff = 1 - r / p.radius;
+      const theta = p.angle * DEG * falloff * falloff;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      out[0] = p.amp * (x * cos - y * sin - x) / p.radius;
+      out[1] = p.amp * (x * sin + y * cos - y) / p.radius;
+    }
+  }
+};
+
+export const GENERATOR_NAMES = Object.keys(GENERATORS) as MapGeneratorName[];
+
+export function isGeneratorSrc(src: string): boolean {
+  return src.startsWith(GENERATOR_PREFIX);
+}
+
+/**
+ * Parses a `generator://` source. Throws a MapGeneratorError for unknown generators,
+ * unknown params and values that are not finite numbers; values out of range are clamped
+ * (see PARAM_RANGES).
+ */
+export function parseGeneratorSrc(src: string): MapGeneratorSpec {
+  if (!isGeneratorSrc(src)) {
+    throw new MapGeneratorError(`Not a generator source: ${src}`);
+  }
+  const [path, query = ''] = src.slice(GENERATOR_PREFIX.length).split('?', 2);
+  const name = path.replace(/\/+$/, '') as MapGeneratorName;
+  if (!Object.prototype.hasOwnProperty.call(GENERATORS, name)) {
+    throw new MapGeneratorError(`Unknown map generator "${name}" (available: ${GENERATOR_NAMES.join(', ')})`);
+  }
+  const definition = GENERATORS[name];
+
+  const params: Params = { ...COMMON_DEFAULTS, ...definition.defaults };
+  new URLSearchParams(query).forEach((raw, key) => {
+    if (!Object.prototype.hasOwnProperty.call(params, key)) {
+      throw new MapGeneratorError(`"${name}" has no parameter "${key}" (parameters: ${Object.keys(params).join(', ')})`);
+    }
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value)) {
+      throw new MapGeneratorError(`"${name}" parameter "${key}" is not a number: ${raw}`);
+    }
+    const [min, max] = PARAM_RANGES[key];
+    params[key] = clamp(value, min, max);
+  });
+  params.size = Math.round(params.size);
+  return { src, name, params };
+}
+
+/**
+ * RGBA pixels of a generated map at `width`×`height`. Noise and Voronoi repeat seamlessly
+ * across tiles; waves and ribs do on square tiles when `freq` is whole and `angle` is a
+ * multiple of 90°.
+ */
+export function renderGeneratorMap(spec: MapGeneratorSpec, width: number, height: number): Uint8ClampedArray {
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  const { sample } = GENERATORS[spec.name];
+  const short = Math.min(w, h);
+  const frame: Frame = { kx: w / short, ky: h / short };
+  const data = new Uint8ClampedArray(w * h * 4);
+  const out = [0, 0];
+
+  for (let py = 0; py < h; py++) {
+    const v = (py + 0.5) / h;
+    for (let px = 0; px < w; px++) {
+      sample(out, (px + 0.5) / w, v, frame, spec.params);
+      const i = (py * w + px) * 4;
+      data[i] = Math.round((0.5 + 0.5 * clamp(out[0], -1, 1)) * 255);
+      data[i + 1] = Math.round((0.5 + 0.5 * clamp(out[1], -1, 1)) * 255);
+      data[i + 2] = 128;
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+/** Sum of `octaves` gradient noise layers, each twice as fine and half as strong; about -1..1 */
+function fractalNoise(u: number, v: number, p: Params, seed: number): number {
+  const octaves = Math.round(clamp(p.octaves, 1, 8));
+  let period = Math.max(1, Math.round(p.scale));
+  let amplitude = 1;
+  let sum = 0;
+  let total = 0;
+  for (let o = 0; o < octaves; o++) {
+    sum += amplitude * gradientNoise(u * period, v * period, period, seed + o, p.time);
+    total += amplitude;
+    period *= 2;
+    amplitude *= 0.5;
+  }
+  return sum / total;
+}
+
+/**
+ * 2D Perlin noise repeating every `period` cells. Gradients turn with `time` (half of them
+ * each way), which animates the field smoothly; a `time` step of 1 brings it back.
+ */
+function gradientNoise(x: number, y: number, period: number, seed: number, time: number): number {
+  const i0 = Math.floor(x);
+  const j0 = Math.floor(y);
+  const fx = x - i0;
+  const fy = y - j0;
+
+  const corner = (i: number, j: number, dx: number, dy: number): number => {
+    const h = hash(mod(i, period), mod(j, period), seed);
+    const angle = TAU * (h + (h < 0.5 ? time : -time));
+    return Math.cos(angle) * dx + Math.sin(angle) * dy;
+  };
+
+  const sx = fade(fx);
+  const sy = fade(fy);
+  const top = lerp(corner(i0, j0, fx, fy), corner(i0 + 1, j0, fx - 1, fy), sx);
+  const bottom = lerp(corner(i0, j0 + 1, fx, fy - 1), corner(i0 + 1, j0 + 1, fx - 1, fy - 1), sx);
+  return lerp(top, bottom, sy) * Math.SQRT2;
+}
+
+/** Deterministic 0..1 value of a lattice point */
+function hash(i: number, j: number, seed: number): number {
+  let h = Math.imul(i, 0x27d4eb2d) ^ Math.imul(j, 0x165667b1) ^ Math.imul(Math.floor(seed), 0x9e3779b9);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function fract(x: number): number {
+  return x - Math.floor(x);
+}
+
+function mod(a: number, n: number): number {
+  return ((a % n) + n) % n;
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, x));
+}
@@ -19,8 +19,9 @@
  */
 
 import type { EffectStateManager } from './EffectState';
-import type { EngineState } from './types';
+import type { DisplacementChannel, EngineState } from './types';
 import { APP_CONFIG } from '../config/constants';
+import { getAxisDisplacement, getDisplacementScales, getMapAxesMatrix } from './EffectMath';
 
 export class SVGExporter {
   constructor(
@@ -35,6 +36,10 @@ export class SVGExporter {
     code: string;
     settings: {
       strength: number;
+      strengthX: number | null;
+      strengthY: number | null;
+      xChannel: DisplacementChannel;
+      yChannel: DisplacementChannel;
       chromaticAberration: number;
       blur: number;
       soft: number;
@@ -45,6 +50,9 @@ export class SVGExporter {
   } {
     // Current UI values
     const currentStrength = this.effectStateManager.getStrength();
+    const currentStrengthX = this.effectStateManager.getStrengthX();
+    const currentStrengthY = this.effectStateManager.getStrengthY();
+    const { xChannel, yChannel } = this.effectStateManager.getDisplacementChannels();
     const currentChromaticAberration = this.effectStateManager.getChromaticAberration();
     const currentBlur = this.effectStateManager.getBlur();
     const currentSoft = this.effectStateManager.getSoft();
@@ -60,11 +68,8 @@ export class SVGExporter {
     const maxDim = Math.max(exportWidth, exportHeight);
 
     // Match runtime formulas
-    const baseStrength = maxDim / APP_CONFIG.EFFECT_CALCULATIONS.BASE_STRENGTH_DIVISOR; // e.g., 1024/10
-    const s = currentStrength * (baseStrength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR);
-    const ca = (currentStrength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR)
-             * currentChromaticAberration
-             * (baseStrength / APP_CONFIG.EFFECT_CALCULATIONS.STRENGTH_FACTOR);
+    const axes = getAxisDisplacement(currentStrength, currentStrengthX, currentStrengthY);
+    const scales = getDisplacementScales(axes.strength, currentChromaticAberration, exportWidth, exportHeight);
 
     const baseBlur = maxDim / APP_CONFIG.EFFECT_CALCULATIONS.BLUR_FACTOR;
     const blurStdDev = currentBlur * baseBlur;
@@ -80,14 +85,18 @@ export class SVGExporter {
       mapUrl: currentMapUrl,
       exportWidth,
       exportHeight,
-      dispScaleR: s + ca,
-      dispScaleG: s,
-      dispScaleB: s - ca,
+      dispScaleR: scales.red,
+      dispScaleG: scales.green,
+      dispScaleB: scales.blue,
+      mapAxesMatrix: this.getExportMapAxesMatrix(xChannel, yChannel, axes.slopeX, axes.slopeY),
       blurStdDev,
       softStdDev,
       dissolve: currentDissolve,
       tileSize,
       pluginStrength: currentStrength,
+      pluginStrengthX: currentStrengthX,
+      pluginStrengthY: currentStrengthY,
+      pluginChannels: `${xChannel} / ${yChannel}`,
       pluginChromatic: currentChromaticAberration,
       pluginBlur: currentBlur,
       pluginSoft: currentSoft,
@@ -98,6 +107,10 @@ export class SVGExporter {
       code: fullCode,
       settings: {
         strength: currentStrength,
+        strengthX: currentStrengthX,
+        strengthY: currentStrengthY,
+        xChannel,
+        yChannel,
         chromaticAberration: currentChromaticAberration,
         blur: currentBlur,
         soft: currentSoft,
@@ -118,11 +131,15 @@ export class SVGExporter {
     dispScaleR: number;
     dispScaleG: number;
     dispScaleB: number;
+    mapAxesMatrix: number[];
     blurStdDev: number;
     softStdDev: number;
     dissolve: string;
     tileSize: number;
     pluginStrength?: number;
+    pluginStrengthX?: number | null;
+    pluginStrengthY?: number | null;
+    pluginChannels?: string;
     pluginChromatic?: number;
     pluginBlur?: number;
     pluginSoft?: number;
@@ -135,11 +152,15 @@ export class SVGExporter {
       dispScaleR,
       dispScaleG,
       dispScaleB,
+      mapAxesMatrix,
       blurStdDev,
       softStdDev,
       dissolve,
       tileSize,
       pluginStrength,
+      pluginStrengthX,
+      pluginStrengthY,
+      pluginChannels,
       pluginChromatic,
       pluginBlur,
       pluginSoft,
@@ -149,6 +170,11 @@ export class SVGExporter {
     // Placeholder image (1024x1024) for demo content
     const placeholderImage = 'https://i.ibb.co/0yYC4pCY/Placeholder-image.png';
 
+    // Other channels or unequal X/Y strength: route and weight the map like the runtime chain
+    const identity = [1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0];
+    const routeAxes = mapAxesMatrix.some((value, i) => value !== identity[i]);
+    const displacementInput = routeAxes ? 'axisDisplacement' : 'finalDisplacement';
+
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -169,6 +195,8 @@ export class SVGExporter {
   Displace 2.0 Export — Settings Snapshot
   Plugin settings (raw):
     - strength: ${pluginStrength ?? 'n/a'}
+    - strengthX / strengthY: ${pluginStrengthX ?? 'linked'} / ${pluginStrengthY ?? 'linked'}
+    - channels X / Y: ${pluginChannels ?? 'R / G'}
     - chromaticAberration: ${pluginChromatic ?? 'n/a'}
     - blur: ${pluginBlur ?? 'n/a'}
     - soft: ${pluginSoft ?? 'n/a'}
@@ -205,6 +233,10 @@ export class SVGExporter {
         `<feGaussianBlur in="tiledDisplacement" stdDeviation="${softStdDev}" result="finalDisplacement" />` :
         `<feOffset in="tiledDisplacement" result="finalDisplacement" dx="0" dy="0" />`
       }
+      ${routeAxes ?
+        `<!-- Displacement channels and horizontal / vertical strength, routed into R (x) and G (y) -->
+      <feColorMatrix in="finalDisplacement" type="matrix" values="${mapAxesMatrix.join(' ')}" result="axisDisplacement" />` : ''
+      }
 
       <!-- Match runtime order: blur first, then dissolve -->
       ${blurStdDev > 0 ?
@@ -234,15 +266,15 @@ export class SVGExporter {
       </feComponentTransfer>
       
       <!-- Apply Displacement -->
-      <feDisplacementMap in="redChannel" in2="${softStdDev > 0 ? 'finalDisplacement' : 'tiledDisplacement'}" 
+      <feDisplacementMap in="redChannel" in2="${displacementInput}" 
                          scale="${dispScaleR}" 
                          xChannelSelector="R" yChannelSelector="G" 
                          result="displacedRed" />
-      <feDisplacementMap in="greenChannel" in2="${softStdDev > 0 ? 'finalDisplacement' : 'tiledDisplacement'}" 
+      <feDisplacementMap in="greenChannel" in2="${displacementInput}" 
                          scale="${dispScaleG}" 
                          xChannelSelector="R" yChannelSelector="G" 
                          result="displacedGreen" />
-      <feDisplacementMap in="blueChannel" in2="${softStdDev > 0 ? 'finalDisplacement' : 'tiledDisplacement'}" 
+      <feDisplacementMap in="blueChannel" in2="${displacementInput}" 
                          scale="${dispScaleB}" 
                          xChannelSelector="R" yChannelSelector="G" 
                          result="displacedBlue" />
@@ -279,6 +311,26 @@ export class SVGExporter {
 </html>`;
   }
 
+  /**
+   * The exported filter reads the first layer's image directly, without the channel
+   * remapping the renderer applies when drawing layers, so its layer channels are folded
+   * into the effect's selection here.
+   */
+  private getExportMapAxesMatrix(
+    xChannel: DisplacementChannel,
+    yChannel: DisplacementChannel,
+    slopeX: number,
+    slopeY: number
+  ): number[] {
+    const layer = this.engineState.layerImages?.[0];
+    const toSource = (channel: DisplacementChannel): DisplacementChannel => {
+      if (channel === 'R') return layer?.xChannel ?? 'R';
+      if (channel === 'G') return layer?.yChannel ?? 'G';
+      return channel;
+    };
+    return getMapAxesMatrix(toSource(xChannel), toSource(yChannel), slopeX, slopeY);
+  }
+
   /**
    * Exports just the SVG filter code (without HTML wrapper)
    */
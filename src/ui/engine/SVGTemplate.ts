@@ -19,7 +19,8 @@
  */
 
 import { APP_CONFIG } from '../config/constants';
-import type { SVGElements } from './types';
+import { createNoiseTile } from './CpuRenderer';
+import type { RgbaImage, SVGElements } from './types';
 
 /**
  * Generates the SVG template for displacement effects
@@ -47,6 +48,10 @@ export function createSVGTemplate(): string {
 
           <!-- Soft blur applied to displacement map (controlled via EffectStateManager.setSoft) -->
           <feGaussianBlur id="feMapGaussianBlur" in="fileMap" stdDeviation="0" result="fileMapSoft" />
+
+          <!-- Selected X/Y channels routed into R/G and weighted per axis (EffectStateManager: X/Y strength, channels).
+               The displacement maps below therefore always select R and G. -->
+          <feColorMatrix id="feMapAxes" in="fileMapSoft" type="matrix" values="1 0 0 0 0  0 1 0 0 0  0 0 1 0 0  0 0 0 1 0" result="fileMapAxes" />
           
           <!-- Generative dissolve map -->
           <feImage id="noiseTexture" width="128" height="128" result="noiseTile" />
@@ -72,10 +77,10 @@ export function createSVGTemplate(): string {
             <feFuncG type="table" tableValues="0 0"/>
           </feComponentTransfer>
 
-          <!-- STEP 2: Displace each channel independently based on blurred fileMap -->
-          <feDisplacementMap in="R_channel" in2="fileMapSoft" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_R" />
-          <feDisplacementMap in="G_channel" in2="fileMapSoft" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_G" />
-          <feDisplacementMap in="B_channel" in2="fileMapSoft" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_B" />
+          <!-- STEP 2: Displace each channel independently based on the blurred, axis-weighted fileMap -->
+          <feDisplacementMap in="R_channel" in2="fileMapAxes" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_R" />
+          <feDisplacementMap in="G_channel" in2="fileMapAxes" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_G" />
+          <feDisplacementMap in="B_channel" in2="fileMapAxes" scale="0" xChannelSelector="R" yChannelSelector="G" result="displaced_B" />
 
           <!-- STEP 3: Recombine the displaced channels -->
           <feBlend in="displaced_R" in2="displaced_G" mode="screen" result="RG_displaced" />
@@ -118,6 +123,7 @@ export function initializeSVG(container: HTMLElement): SVGElements {
   const feDispMapDissolve = container.querySelector('[in2="noiseMap"]') as SVGFEDisplacementMapElement;
   const feGaussianBlur = container.querySelector('#feSourceGaussianBlur') as SVGFEGaussianBlurElement;
   const feMapGaussianBlur = container.querySelector('#feMapGaussianBlur') as SVGFEGaussianBlurElement;
+  const feMapAxes = container.querySelector('#feMapAxes') as SVGFEColorMatrixElement;
   const outputRect = container.querySelector("#outputRect") as SVGRectElement;
   const maskRect = container.querySelector("#maskRect") as SVGRectElement;
   const noiseTexture = container.querySelector('#noiseTexture') as SVGImageElement;
@@ -138,6 +144,7 @@ export function initializeSVG(container: HTMLElement): SVGElements {
     feDispMapDissolve,
     feGaussianBlur,
     feMapGaussianBlur,
+    feMapAxes,
     outputRect,
     maskRect,
     noiseTexture
@@ -145,25 +152,21 @@ export function initializeSVG(container: HTMLElement): SVGElements {
 }
 
 /**
- * Initializes noise texture for dissolve effects
+ * Initializes noise texture for dissolve effects. Returns the tile so other renderers
+ * can dissolve with the same noise.
  */
-export function initializeNoiseTexture(noiseTexture: SVGImageElement): void {
-  if (!noiseTexture) return;
+export function initializeNoiseTexture(noiseTexture: SVGImageElement): RgbaImage {
+  const tile = createNoiseTile();
+  if (!noiseTexture) return tile;
   
   const noiseCanvas = document.createElement('canvas');
-  noiseCanvas.width = 128;
-  noiseCanvas.height = 128;
+  noiseCanvas.width = tile.width;
+  noiseCanvas.height = tile.height;
   const noiseCtx = noiseCanvas.getContext('2d')!;
-  const noiseImageData = noiseCtx.createImageData(128, 128);
-  const data = noiseImageData.data;
-  
-  for (let i = 0; i < data.length; i += 4) {
-    data[i] = Math.random() * 255;
-    data[i + 1] = Math.random() * 255;
-    data[i + 2] = 0;
-    data[i + 3] = 255;
-  }
+  const noiseImageData = noiseCtx.createImageData(tile.width, tile.height);
+  noiseImageData.data.set(tile.data);
   
   noiseCtx.putImageData(noiseImageData, 0, 0);
   noiseTexture.setAttribute('href', noiseCanvas.toDataURL());
-} 
\ No newline at end of file
+  return tile;
+}
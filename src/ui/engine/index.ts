@@ -25,10 +25,11 @@ import { APP_CONFIG } from '../config/constants';
 // Import our new modular components
 import { initializeSVG, initializeNoiseTexture } from './SVGTemplate';
 import { EffectStateManager } from './EffectState';
+import { getMapSoftDeviation } from './EffectMath';
 import { FilterRenderer } from './FilterRenderer';
 import { ImageLoader } from './ImageLoader';
 import { SVGExporter } from './SVGExporter';
-import type { DisplacementEngineAPI, EngineState, DisplacementEngineInitOptions, MapSource } from './types';
+import type { DisplacementEngineAPI, EngineState, DisplacementEngineInitOptions, MapSource, RenderedTiles, CpuEffectParams, RenderParityReport, DisplacementChannel } from './types';
 
 /**
  * Initializes the displacement engine with modular architecture
@@ -38,7 +39,7 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
   const svgElements = initializeSVG(container);
   
   // Initialize noise texture for dissolve effects
-  initializeNoiseTexture(svgElements.noiseTexture);
+  const noiseTile = initializeNoiseTexture(svgElements.noiseTexture);
 
   // Initialize reflect effect (optional)
   let reflectEffect: ReflectEffect | null = null;
@@ -62,6 +63,10 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
     currentMapLoadingUrl: null,
     effectSettings: {
       strength: 0,
+      strengthX: null,
+      strengthY: null,
+      xChannel: 'R',
+      yChannel: 'G',
       chromaticAberration: 0,
       blur: 0,
       soft: 0,
@@ -93,6 +98,14 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
 
   const filterRenderer = new FilterRenderer(svgElements, engineState, reflectEffect, imageLoader, updateCallback);
 
+  // Current effect values for the CPU reference renderer (same noise tile as the SVG dissolve)
+  const getCpuEffectParams = (): CpuEffectParams => ({
+    settings: effectStateManager.getSettings(),
+    dissolve: parseFloat(effectStateManager.getDissolveStrength()) || 0,
+    reflect: reflectEffect ? reflectEffect.getSettings() : { opacity: 0, sharpness: 50 },
+    noise: noiseTile
+  });
+
   // Create the public API that matches the original engine interface
   const api: DisplacementEngineAPI = {
     // Core methods
@@ -107,6 +120,21 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
       effectStateManager.setStrength(val);
     },
 
+    setStrengthX(val: number | null) {
+      console.log('⚙️ [ENGINE] setStrengthX:', val);
+      effectStateManager.setStrengthX(val);
+    },
+
+    setStrengthY(val: number | null) {
+      console.log('⚙️ [ENGINE] setStrengthY:', val);
+      effectStateManager.setStrengthY(val);
+    },
+
+    setDisplacementChannels(xChannel: DisplacementChannel, yChannel: DisplacementChannel) {
+      console.log('⚙️ [ENGINE] setDisplacementChannels:', xChannel, yChannel);
+      effectStateManager.setDisplacementChannels(xChannel, yChannel);
+    },
+
     setScale(val: number) {
       console.log('⚙️ [ENGINE] setScale:', val);
       effectStateManager.setScale(val);
@@ -131,8 +159,7 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
       effectStateManager.setSoft(val);
       // Propagate equivalent soft blur amount to ReflectEffect map blur
       if (reflectEffect) {
-        const baseSoftness = (engineState.scalePct / 100) * APP_CONFIG.EFFECT_CALCULATIONS.BLUR_SOFTNESS_FACTOR;
-        const stdDeviation = val * baseSoftness;
+        const stdDeviation = getMapSoftDeviation(val, engineState.scalePct);
         try { (reflectEffect as any).setSoftBlur(stdDeviation); } catch {}
       }
     },
@@ -205,6 +232,17 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
       try { this.inlineDisplacementTextureForExport(); } catch {}
       return filterRenderer.renderToBytes();
     },
+    async getImageTiles(): Promise<RenderedTiles> {
+      try { this.inlineDisplacementTextureForExport(); } catch {}
+      return filterRenderer.renderTiles();
+    },
+    async getCpuImageBytes(): Promise<Uint8Array> {
+      return filterRenderer.renderCpuToBytes(getCpuEffectParams());
+    },
+    async checkRenderParity(tolerance?: number): Promise<RenderParityReport> {
+      try { this.inlineDisplacementTextureForExport(); } catch {}
+      return filterRenderer.checkParity(getCpuEffectParams(), tolerance);
+    },
     async getThumbnailBytes(maxSide?: number): Promise<Uint8Array> {
       return filterRenderer.renderToThumbnailBytes(maxSide);
     },
@@ -225,6 +263,9 @@ export function initDisplacementEngine(container: HTMLElement, options: Displace
     getCurrentEffectSettings() {
       return {
         strength: effectStateManager.getStrength(),
+        strengthX: effectStateManager.getStrengthX(),
+        strengthY: effectStateManager.getStrengthY(),
+        ...effectStateManager.getDisplacementChannels(),
         chromaticAberration: effectStateManager.getChromaticAberration(),
         blur: effectStateManager.getBlur(),
         soft: effectStateManager.getSoft(),
@@ -19,8 +19,17 @@
 
 // Types for the displacement engine modules
 
+/** Map channel a displacement axis reads (feDisplacementMap channel selector) */
+export type DisplacementChannel = 'R' | 'G' | 'B' | 'A';
+
 export interface EffectSettings {
   strength: number;
+  /** Horizontal / vertical strength; null follows `strength` */
+  strengthX: number | null;
+  strengthY: number | null;
+  /** Channels of the composited map that drive horizontal and vertical displacement */
+  xChannel: DisplacementChannel;
+  yChannel: DisplacementChannel;
   chromaticAberration: number;
   blur: number;
   soft: number;
@@ -43,6 +52,7 @@ export interface SVGElements {
   feDispMapDissolve: SVGFEDisplacementMapElement;
   feGaussianBlur: SVGFEGaussianBlurElement;
   feMapGaussianBlur: SVGFEGaussianBlurElement;
+  feMapAxes: SVGFEColorMatrixElement;
   outputRect: SVGRectElement;
   maskRect: SVGRectElement;
   noiseTexture: SVGImageElement;
@@ -86,10 +96,13 @@ export interface EngineState {
    * Generalized multi-layer support: ordered list of layers to render into a single
    * displacement texture. When present, renderer will use these instead of mapImage/overlay.
    */
-  layerImages?: Array<{
+  layerImages?: Array<LayerOrientation & {
     image: HTMLImageElement;
+    generator?: MapGeneratorSpec; // procedural layer: `image` is a preview, the map is rendered at draw size
     tiling: 'tiled' | 'stretched';
     scale?: number; // percent (if undefined, falls back to global scalePct)
+    xChannel?: DisplacementChannel; // channel of this image holding X (default 'R')
+    yChannel?: DisplacementChannel; // channel of this image holding Y (default 'G')
     scaleMode?: 'uniform' | 'xOnly' | 'yOnly';
     opacity?: number; // 0..1
     blendMode?: GlobalCompositeOperation;
@@ -109,12 +122,67 @@ export interface EngineState {
   previewMax: number;
 }
 
+/** Plain RGBA pixels (straight alpha, like ImageData) */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Effect values the SVG chain keeps outside EffectSettings (dissolve scale, reflect sliders) */
+export interface CpuEffectParams {
+  settings: EffectSettings;
+  dissolve: number;
+  reflect: { opacity: number; sharpness: number };
+  noise: RgbaImage;
+}
+
+/** Everything the CPU reference renderer needs; DOM-free so it can run in Node or a worker */
+export interface CpuRenderInput extends CpuEffectParams {
+  /** Original pixels, without the mirrored padding */
+  source: RgbaImage;
+  /** Displacement map as drawn at the source size for export; null when no map is loaded */
+  map: RgbaImage | null;
+  state: Pick<EngineState, 'scalePct' | 'filterMarginPercent' | 'previewMax'>;
+}
+
+/** CPU render compared with the SVG export of the same state */
+export interface RenderParityReport {
+  width: number;
+  height: number;
+  /** Channel difference (levels) above which a pixel counts as differing */
+  tolerance: number;
+  maxDifference: number;
+  meanDifference: number;
+  differingPixels: number;
+}
+
+/** One cell of a tiled export, in source pixels */
+export interface RenderedTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageBytes: Uint8Array;
+}
+
+export interface RenderedTiles {
+  width: number;
+  height: number;
+  tiles: RenderedTile[];
+}
+
 export interface DisplacementEngineAPI {
   // Core methods
   clear(): void;
   
   // Effect settings
   setStrength(val: number): void;
+  /** Horizontal / vertical strength (-400..400); null links the axis back to setStrength */
+  setStrengthX(val: number | null): void;
+  setStrengthY(val: number | null): void;
+  /** Map channels driving horizontal and vertical displacement (default R and G) */
+  setDisplacementChannels(xChannel: DisplacementChannel, yChannel: DisplacementChannel): void;
   setScale(val: number): void;
   setScaleMode(mode: 'uniform' | 'xOnly' | 'yOnly'): void;
   setChromaticAberration(val: number): void;
@@ -131,6 +199,15 @@ export interface DisplacementEngineAPI {
   loadMap(srcOrFile: MapSource | null): void;
   loadMapAndWait(srcOrFile: MapSource | null): Promise<void>;
   getImageBytes(): Promise<Uint8Array>;
+  /**
+   * Renders the effect at full source resolution, split into tiles that each fit
+   * Figma's image size limit (a single tile when the whole image fits).
+   */
+  getImageTiles(): Promise<RenderedTiles>;
+  /** Renders the current state with the CPU reference renderer instead of the SVG filter */
+  getCpuImageBytes(): Promise<Uint8Array>;
+  /** Renders the current state both ways and reports how far the results differ */
+  checkRenderParity(tolerance?: number): Promise<RenderParityReport>;
   /**
    * Renders a low-resolution raster of the current effect for thumbnails.
    * Uses fixed small output size and DPR=1 for speed.
@@ -150,6 +227,10 @@ export interface DisplacementEngineAPI {
     code: string;
     settings: {
       strength: number;
+      strengthX: number | null;
+      strengthY: number | null;
+      xChannel: DisplacementChannel;
+      yChannel: DisplacementChannel;
       chromaticAberration: number;
       blur: number;
       soft: number;
@@ -178,6 +259,10 @@ export interface DisplacementEngineAPI {
    */
   getCurrentEffectSettings(): {
     strength: number;
+    strengthX: number | null;
+    strengthY: number | null;
+    xChannel: DisplacementChannel;
+    yChannel: DisplacementChannel;
     chromaticAberration: number;
     blur: number;
     soft: number;
@@ -231,10 +316,35 @@ export interface DisplacementEngineInitOptions {
  */
 // Legacy CompositeMapSource removed in favor of MultiLayerMapSource
 
-export interface LayerSpec {
+/** Procedural map generators, see MapGenerators */
+export type MapGeneratorName = 'waves' | 'ripples' | 'rings' | 'noise' | 'voronoi' | 'ribs' | 'twirl';
+
+/** Parsed `generator://name?param=value` layer source */
+export interface MapGeneratorSpec {
+  src: string;
+  name: MapGeneratorName;
+  params: Record<string, number>;
+}
+
+/**
+ * Orientation of a map layer about the canvas centre: flip, then skew, then rotation.
+ * Angles are in degrees; positive rotation is clockwise. Skew stays within ±60° (stored and
+ * pasted layers past that are rejected, see MAX_LAYER_SKEW in shared/recipe).
+ */
+export interface LayerOrientation {
+  rotation?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  skewX?: number;
+  skewY?: number;
+}
+
+export interface LayerSpec extends LayerOrientation {
   src: string | File | HTMLImageElement;
   tiling: 'tiled' | 'stretched';
   scale?: number; // percent
+  xChannel?: DisplacementChannel;
+  yChannel?: DisplacementChannel;
   scaleMode?: 'uniform' | 'xOnly' | 'yOnly';
   opacity?: number; // 0..1
   blendMode?: GlobalCompositeOperation;
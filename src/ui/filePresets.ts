@@ -0,0 +1,57 @@
+import { Preset } from "./presets";
+import { figmaService } from "./services";
+
+export const FILE_PRESETS_CATEGORY = 'This file';
+
+/**
+ * Preset saved in the Figma document (shared plugin data on the document root), so
+ * everyone who opens the file gets it. Like custom presets, its maps are inline data
+ * URLs, so recipes refer to it by id only.
+ */
+export interface FilePreset extends Preset {
+  isCustom: true;
+  isFilePreset: true;
+  category: typeof FILE_PRESETS_CATEGORY;
+  createdAt: number;
+}
+
+class FilePresetsManager {
+  private filePresets: FilePreset[] = [];
+
+  constructor() {
+    // The backend sends the file's presets at startup and after every change
+    figmaService.onMessage('file-presets-loaded', (msg) => {
+      this.filePresets = msg.presets || [];
+      document.dispatchEvent(new CustomEvent('file-presets-updated'));
+    });
+  }
+
+  getFilePresets(): FilePreset[] {
+    return this.filePresets;
+  }
+
+  // Share a personal preset with everyone who opens this file
+  async promoteToFile(preset: Preset): Promise<FilePreset> {
+    const filePreset: FilePreset = {
+      id: `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: preset.name,
+      layers: preset.layers,
+      defaultScale: preset.defaultScale,
+      defaultStrength: preset.defaultStrength,
+      defaultStrengthX: preset.defaultStrengthX,
+      defaultStrengthY: preset.defaultStrengthY,
+      category: FILE_PRESETS_CATEGORY,
+      isCustom: true,
+      isFilePreset: true,
+      createdAt: Date.now()
+    };
+    await figmaService.saveFilePreset(filePreset);
+    return filePreset;
+  }
+
+  async deleteFilePreset(presetId: string): Promise<void> {
+    await figmaService.deleteFilePreset(presetId);
+  }
+}
+
+export const filePresetsManager = new FilePresetsManager();
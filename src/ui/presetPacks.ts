@@ -0,0 +1,153 @@
+/**
+ * Preset Packs
+ *
+ * `.displace.json` files for moving custom presets between machines or sharing them:
+ * the presets with their maps embedded as data URLs (procedural `generator://` maps stay
+ * as their source), a schema version and a checksum over the preset data.
+ * `parsePresetPack` checks all three before anything is imported.
+ *
+ * @module PresetPacks
+ */
+
+import { contentKey } from "../shared/hash";
+import { checkPresetLayer, isPresetLayer } from "../shared/recipe";
+import { isGeneratorSrc, parseGeneratorSrc } from "./engine/MapGenerators";
+import type { PresetLayer } from "./presets/types";
+
+export const PRESET_PACK_FORMAT = 'displace-preset-pack';
+export const PRESET_PACK_VERSION = 1;
+export const PRESET_PACK_EXTENSION = '.displace.json';
+
+/** Preset as written to a pack (no category or custom flags: imports become custom presets) */
+export interface PackedPreset {
+  id: string;
+  name: string;
+  layers: PresetLayer[];
+  defaultScale: number;
+  defaultStrength: number;
+  defaultStrengthX?: number;
+  defaultStrengthY?: number;
+  createdAt: number;
+}
+
+export interface PresetPack {
+  format: typeof PRESET_PACK_FORMAT;
+  version: number;
+  exportedAt: number;
+  presets: PackedPreset[];
+  /** contentKey of the JSON of `presets` */
+  checksum: string;
+}
+
+export interface PresetPackImportReport {
+  added: string[];
+  skipped: { name: string; reason: string }[];
+}
+
+export class PresetPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetPackError';
+  }
+}
+
+export function createPresetPack(presets: PackedPreset[]): PresetPack {
+  const packed = presets.map(({ id, name, layers, defaultScale, defaultStrength, defaultStrengthX, defaultStrengthY, createdAt }) => ({
+    id, name, layers, defaultScale, defaultStrength, defaultStrengthX, defaultStrengthY, createdAt
+  }));
+  return {
+    format: PRESET_PACK_FORMAT,
+    version: PRESET_PACK_VERSION,
+    exportedAt: Date.now(),
+    presets: packed,
+    checksum: contentKey(JSON.stringify(packed))
+  };
+}
+
+export function parsePresetPack(text: string): PresetPack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new PresetPackError('The file is not valid JSON');
+  }
+  const data = isObject(parsed) ? parsed : null;
+  if (!data || data.format !== PRESET_PACK_FORMAT) {
+    throw new PresetPackError('The file is not a Displace preset pack');
+  }
+  if (data.version !== PRESET_PACK_VERSION) {
+    throw new PresetPackError(`Unsupported pack version ${String(data.version)} (this plugin reads version ${PRESET_PACK_VERSION})`);
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new PresetPackError('The pack has no preset list');
+  }
+  const checksum = contentKey(JSON.stringify(data.presets));
+  if (data.checksum !== checksum) {
+    throw new PresetPackError('The pack is damaged: its checksum does not match the preset data');
+  }
+  const presets: PackedPreset[] = [];
+  data.presets.forEach((preset: unknown, index: number) => {
+    if (!isPackedPreset(preset)) {
+      throw new PresetPackError(`Preset ${index + 1} is invalid: ${checkPackedPreset(preset)}`);
+    }
+    presets.push(preset);
+  });
+  return {
+    format: PRESET_PACK_FORMAT,
+    version: PRESET_PACK_VERSION,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    presets,
+    checksum
+  };
+}
+
+/** Identity of a preset's maps and settings, independent of its id and name */
+export function presetContentHash(
+  preset: Pick<PackedPreset, 'layers' | 'defaultScale' | 'defaultStrength' | 'defaultStrengthX' | 'defaultStrengthY'>
+): string {
+  return contentKey(JSON.stringify([
+    preset.layers, preset.defaultScale, preset.defaultStrength, preset.defaultStrengthX, preset.defaultStrengthY
+  ]));
+}
+
+export function downloadPresetPack(pack: PresetPack, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(pack)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}${PRESET_PACK_EXTENSION}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isPackedPreset(value: unknown): value is PackedPreset {
+  return checkPackedPreset(value) === null;
+}
+
+function checkPackedPreset(preset: unknown): string | null {
+  if (!isObject(preset)) return 'not an object';
+  if (typeof preset.id !== 'string' || !preset.id) return 'missing id';
+  if (typeof preset.name !== 'string' || !preset.name) return 'missing name';
+  if (typeof preset.defaultScale !== 'number' || typeof preset.defaultStrength !== 'number') return 'missing default scale or strength';
+  if ([preset.defaultStrengthX, preset.defaultStrengthY].some((v) => v !== undefined && typeof v !== 'number')) {
+    return 'invalid X/Y strength';
+  }
+  if (typeof preset.createdAt !== 'number') return 'missing creation date';
+  if (!Array.isArray(preset.layers) || preset.layers.length === 0) return 'no map layers';
+  for (const layer of preset.layers) {
+    if (!isPresetLayer(layer)) return checkPresetLayer(layer);
+    if (isGeneratorSrc(layer.src)) {
+      try {
+        parseGeneratorSrc(layer.src);
+      } catch (error) {
+        return (error as Error).message;
+      }
+    } else if (!layer.src.startsWith('data:image/')) {
+      return 'a map is not embedded as an image';
+    }
+  }
+  return null;
+}
@@ -1,8 +1,13 @@
-export interface PresetLayer {
-  src: string; // URL or data URI (SVG/PNG)
+import type { DisplacementChannel, LayerOrientation } from '../engine/types';
+
+// Orientation (rotation, flipX/flipY, skewX/skewY) applies about the canvas centre, see LayerOrientation
+export interface PresetLayer extends LayerOrientation {
+  src: string; // URL, data URI (SVG/PNG) or generator://name?params (procedural, see MapGenerators)
   tiling: 'tiled' | 'stretched';
   scale?: number; // % (optional; falls back to preset.defaultScale)
   scaleMode?: 'uniform' | 'xOnly' | 'yOnly';
+  xChannel?: DisplacementChannel; // channel holding horizontal displacement (default R)
+  yChannel?: DisplacementChannel; // channel holding vertical displacement (default G); maps from other tools often use B or A
   opacity?: number; // 0..1
   blendMode?: GlobalCompositeOperation; // 'source-over' by default
   alignX?: 'left' | 'center' | 'right';
@@ -17,10 +22,13 @@ export interface Preset {
   layers: PresetLayer[];
   defaultScale: number; // % (2‑150) — глобальный дефолт, если у слоя scale не задан
   defaultStrength: number; // -400‑400 (UI supports bipolar strength)
+  defaultStrengthX?: number; // -400‑400; with defaultStrengthY unlinks X/Y strength (e.g. horizontal-only ribbed glass)
+  defaultStrengthY?: number;
   premium?: boolean;
   category: string;
   order?: number; // optional ordering within a category
   isCustom?: boolean; // оставляем для менеджера пользовательских пресетов
+  isFilePreset?: boolean; // team preset stored in the document (see filePresets)
   createdAt?: number;
 }
 
@@ -56,4 +56,14 @@ export const randomizerConfig: RandomizerConfig = {
     max: 80,
     probability: 0.4,
   },
-}; 
\ No newline at end of file
+};
+
+/**
+ * Separate horizontal/vertical strength: `probability` is the chance a shuffle unlinks
+ * strength at all, and each axis is then drawn from `min`..`max`.
+ */
+export const axisStrengthConfig: RandomizerParameterConfig = {
+  min: -400,
+  max: 400,
+  probability: 0.25,
+};
@@ -1,16 +1,24 @@
 import {
+  axisStrengthConfig,
   randomizerConfig,
   RandomizerConfig,
   RandomizerParameterConfig,
 } from "./randomizer-config";
 
-export type RandomizerResult = Record<keyof RandomizerConfig, number>;
+export type RandomizerResult = Record<keyof RandomizerConfig, number> & {
+  strengthX?: number;
+  strengthY?: number;
+};
+
+function getRandomInRange(config: RandomizerParameterConfig): number {
+  return Math.random() * (config.max - config.min) + config.min;
+}
 
 function getRandomValue(config: RandomizerParameterConfig): number {
   if (config.probability !== undefined && Math.random() > config.probability) {
     return 0;
   }
-  return Math.random() * (config.max - config.min) + config.min;
+  return getRandomInRange(config);
 }
 
 export function generateRandomizedValues(): RandomizerResult {
@@ -22,5 +30,9 @@ export function generateRandomizedValues(): RandomizerResult {
       result[paramKey] = getRandomValue(paramConfig);
     }
   }
+  if (Math.random() < (axisStrengthConfig.probability ?? 0)) {
+    result.strengthX = getRandomInRange(axisStrengthConfig);
+    result.strengthY = getRandomInRange(axisStrengthConfig);
+  }
   return result as RandomizerResult;
 } 
\ No newline at end of file
@@ -17,9 +17,50 @@
  * @module FigmaService
  */
 
-import type { FigmaMessage, FigmaMessageHandlers } from '../types';
+import type {
+  ApplyMode,
+  FigmaMessage,
+  FigmaMessageHandlers,
+  BatchTarget,
+  BatchSkippedNode,
+  CopyLayout,
+  CustomPreset,
+  FilePreset,
+  FillLayerOptions,
+  ImageUse,
+  ImageUseScope,
+  NestedTarget,
+  NodeImage,
+  RecipeNodeInfo,
+  StorageUsage
+} from '../types';
 import { APP_CONFIG } from '../config/constants';
 import { eventBus } from '../core/EventBus';
+import type { FavouriteRecipe, RecipePayload } from '../../shared/recipe';
+import type { PresetIndexEntry } from '../../shared/quickApply';
+import { parsePluginMessage, ProtocolError } from '../../shared/protocol';
+import type { PluginMessageOf, PluginMessageType, ResultTile, UiMessageOf, UiMessageType } from '../../shared/protocol';
+
+const FIGMA_ORIGIN = 'https://www.figma.com';
+
+/** Fields of a UI message besides `type` and `requestId` */
+type UiMessagePayload<K extends UiMessageType> = Omit<UiMessageOf<K>, 'type' | 'requestId'>;
+
+/** Payload argument, optional for messages without required fields */
+type PayloadArgs<K extends UiMessageType> = {} extends UiMessagePayload<K>
+  ? [payload?: UiMessagePayload<K>]
+  : [payload: UiMessagePayload<K>];
+
+interface ApplyOptions {
+  mode?: ApplyMode;
+  recipe?: RecipePayload;
+  fillIndex?: number | null;
+  /** Blend mode and opacity of the added fill ('fill' mode only) */
+  fillLayer?: FillLayerOptions;
+  /** Placement and name of the new node ('copy' mode only) */
+  copyLayout?: CopyLayout;
+  copyName?: string;
+}
 
 /**
  * Service for all Figma communication
@@ -28,6 +69,9 @@ import { eventBus } from '../core/EventBus';
 export class FigmaService {
   private messageHandlers: Map<string, Function[]> = new Map();
   private isInitialized = false;
+  // Requests awaiting a reply, keyed by requestId
+  private pendingRequests: Map<string, (message: FigmaMessage) => void> = new Map();
+  private requestCounter = 0;
 
   constructor() {
     this.setupMessageListener();
@@ -49,76 +93,53 @@ export class FigmaService {
   /**
    * Send message to Figma plugin backend
    */
-  public sendMessage(
-    type: string, 
-    payload: Record<string, any> = {},
-    targetOrigin: string = 'https://www.figma.com'
-  ): void {
-    const message = {
-      pluginMessage: {
-        type,
-        ...payload
-      }
-    };
-
-    try {
-      parent.postMessage(message, targetOrigin);
-    } catch (error) {
-      console.error('Failed to send message to Figma:', error);
-      throw new Error(`Failed to send ${type} message to Figma`);
-    }
+  public sendMessage<K extends UiMessageType>(type: K, ...[payload]: PayloadArgs<K>): void {
+    this.postToPlugin({ type, ...payload });
   }
 
   /**
-   * Send message and wait for response (like in customPresets.ts)
+   * Send a request and wait for its response. The request carries a fresh requestId
+   * and only replies echoing that id are considered: the expected response resolves,
+   * while `errorResponseType`, `${type}-error` or a protocol error reject.
    */
-  public sendMessageAndWait<T = any>(
-    type: string,
-    payload: Record<string, any> = {},
-    expectedResponseType: string,
-    timeout: number = APP_CONFIG.REQUEST_TIMEOUT
-  ): Promise<T> {
+  public sendMessageAndWait<K extends UiMessageType, R extends PluginMessageType>(
+    type: K,
+    payload: UiMessagePayload<K>,
+    expectedResponseType: R,
+    timeout: number = APP_CONFIG.REQUEST_TIMEOUT,
+    errorResponseType?: PluginMessageType
+  ): Promise<PluginMessageOf<R>> {
     return new Promise((resolve, reject) => {
-      let isResolved = false;
-      
-      const handleResponse = (event: MessageEvent) => {
-        const raw = (event as any)?.data;
-        const incoming = raw && (raw.pluginMessage ? raw.pluginMessage : raw);
-        if (!incoming || !incoming.type) return;
-
-        const msg = incoming;
+      const requestId = `${type}#${++this.requestCounter}`;
+      const errorTypes = [errorResponseType, `${type}-error`, 'protocol-error'];
 
-        if (msg.type === expectedResponseType) {
-          if (!isResolved) {
-            isResolved = true;
-            window.removeEventListener('message', handleResponse);
-            clearTimeout(timeoutId);
-            resolve(msg);
-          }
-        } else if (msg.type.includes('error') && msg.type.includes(expectedResponseType.split('-')[1])) {
-          if (!isResolved) {
-            isResolved = true;
-            window.removeEventListener('message', handleResponse);
-            clearTimeout(timeoutId);
-            reject(new Error(msg.error || 'Unknown error'));
-          }
-        }
+      const settle = () => {
+        this.pendingRequests.delete(requestId);
+        clearTimeout(timeoutId);
       };
 
       // Set up timeout
       const timeoutId = setTimeout(() => {
-        if (!isResolved) {
-          isResolved = true;
-          window.removeEventListener('message', handleResponse);
-          reject(new Error(`Request timeout for ${type}`));
-        }
+        settle();
+        reject(new Error(`Request timeout for ${type}`));
       }, timeout);
 
-      // Listen for response
-      window.addEventListener('message', handleResponse);
-      
-      // Send message
-      this.sendMessage(type, payload);
+      this.pendingRequests.set(requestId, (msg) => {
+        if (msg.type === expectedResponseType) {
+          settle();
+          resolve(msg as PluginMessageOf<R>);
+        } else if (errorTypes.includes(msg.type)) {
+          settle();
+          reject(new Error(('error' in msg && msg.error) || 'Unknown error'));
+        }
+      });
+
+      try {
+        this.postToPlugin({ type, ...payload, requestId });
+      } catch (error) {
+        settle();
+        reject(error);
+      }
     });
   }
 
@@ -152,12 +173,189 @@ export class FigmaService {
    */
   
   // Apply displacement effect
-  public async applyDisplacementEffect(imageBytes: Uint8Array, options?: { mode?: 'modify' | 'copy' }): Promise<void> {
-    this.sendMessage('apply-displacement-result', { imageBytes, mode: options?.mode });
+  public async applyDisplacementEffect(
+    imageBytes: Uint8Array,
+    options?: ApplyOptions
+  ): Promise<void> {
+    this.sendMessage('apply-displacement-result', {
+      imageBytes,
+      mode: options?.mode,
+      recipe: options?.recipe,
+      fillIndex: options?.fillIndex ?? undefined,
+      fillLayer: options?.fillLayer,
+      copyLayout: options?.copyLayout,
+      copyName: options?.copyName
+    });
+  }
+
+  // Apply a result rendered in tiles (larger than Figma's image limit) to the current selection,
+  // or to a specific node (re-renders), and wait for Figma to confirm
+  public async applyTiledResult(
+    result: { width: number; height: number; tiles: ResultTile[] },
+    options?: ApplyOptions,
+    nodeId?: string
+  ): Promise<void> {
+    await this.sendMessageAndWait(
+      'apply-tiled-result',
+      {
+        nodeId,
+        width: result.width,
+        height: result.height,
+        tiles: result.tiles,
+        mode: options?.mode,
+        recipe: options?.recipe,
+        fillIndex: options?.fillIndex ?? undefined,
+        fillLayer: options?.fillLayer,
+        copyLayout: options?.copyLayout,
+        copyName: options?.copyName
+      },
+      'apply-success',
+      APP_CONFIG.BATCH.ITEM_TIMEOUT,
+      'apply-error'
+    );
+  }
+
+  // Apply a rendered result to a specific node (batch apply) and wait for Figma to confirm
+  public async applyDisplacementToNode(
+    imageBytes: Uint8Array,
+    nodeId: string,
+    options?: ApplyOptions
+  ): Promise<void> {
+    await this.sendMessageAndWait(
+      'apply-displacement-result',
+      {
+        imageBytes,
+        nodeId,
+        mode: options?.mode,
+        recipe: options?.recipe,
+        fillIndex: options?.fillIndex ?? undefined,
+        fillLayer: options?.fillLayer,
+        copyLayout: options?.copyLayout,
+        copyName: options?.copyName
+      },
+      'apply-success',
+      APP_CONFIG.BATCH.ITEM_TIMEOUT,
+      'apply-error'
+    );
+  }
+
+  // List the processable nodes of a multi-node selection
+  public async getBatchTargets(): Promise<{ targets: BatchTarget[]; skipped: BatchSkippedNode[] }> {
+    return this.sendMessageAndWait(
+      'get-batch-targets',
+      {},
+      'batch-targets'
+    );
+  }
+
+  // Fetch the original image of a node together with the fill it was taken from
+  public async getNodeImage(nodeId: string): Promise<NodeImage> {
+    const response = await this.sendMessageAndWait(
+      'get-node-image',
+      { nodeId },
+      'node-image',
+      APP_CONFIG.BATCH.ITEM_TIMEOUT
+    );
+    return { imageBytes: response.imageBytes, fillIndex: response.fillIndex ?? null, crop: response.crop ?? null, tiled: !!response.tiled };
+  }
+
+  // Pick which image fill of the selected node is processed; the backend re-sends the selection
+  public selectImageFill(fillIndex: number): void {
+    this.sendMessage('select-image-fill', { fillIndex });
+  }
+
+  // Scan the page or document for layers showing the selected image (progress arrives as 'image-uses-progress')
+  public async findImageUses(scope: ImageUseScope): Promise<{ imageHash: string; uses: ImageUse[] }> {
+    const response = await this.sendMessageAndWait(
+      'find-image-uses',
+      { scope },
+      'image-uses-result',
+      APP_CONFIG.IMAGE_USES.TIMEOUT
+    );
+    return { imageHash: response.imageHash, uses: response.uses };
+  }
+
+  // Replace the scanned image with the rendered result in every listed layer
+  public async applyToImageUses(
+    imageBytes: Uint8Array,
+    imageHash: string,
+    nodeIds: string[],
+    recipe: RecipePayload
+  ): Promise<{ replaced: number; failed: number }> {
+    return this.sendMessageAndWait(
+      'apply-to-image-uses',
+      { imageBytes, imageHash, nodeIds, recipe },
+      'image-uses-applied',
+      APP_CONFIG.IMAGE_USES.TIMEOUT
+    );
+  }
+
+  // Process the selected container itself, one of its nested images, or all of them
+  public selectNestedImage(target: NestedTarget): void {
+    this.sendMessage('select-nested-image', { target });
+  }
+
+  // Revert selected nodes to their original image (drops their recipes)
+  public async revertDisplacement(): Promise<{ reverted: number; withoutRecipe: number }> {
+    return this.sendMessageAndWait(
+      'revert-displacement',
+      {},
+      'revert-result',
+      APP_CONFIG.REQUEST_TIMEOUT,
+      'revert-displacement-error'
+    );
+  }
+
+  // Cache the manifest presets for quick action suggestions
+  public cachePresetIndex(presets: PresetIndexEntry[]): void {
+    this.sendMessage('cache-preset-index', { presets });
+  }
+
+  // Favourite recipes (client storage); every call returns the updated list
+  public async getFavourites(): Promise<FavouriteRecipe[]> {
+    const response = await this.sendMessageAndWait('get-favourites', {}, 'favourites-result');
+    return response.favourites;
+  }
+
+  public async saveFavourite(favourite: FavouriteRecipe): Promise<FavouriteRecipe[]> {
+    const response = await this.sendMessageAndWait('save-favourite', { favourite }, 'favourites-result');
+    return response.favourites;
+  }
+
+  public async deleteFavourite(favouriteId: string): Promise<FavouriteRecipe[]> {
+    const response = await this.sendMessageAndWait('delete-favourite', { favouriteId }, 'favourites-result');
+    return response.favourites;
+  }
+
+  // Opt in or out of re-rendering stale effects automatically; answered with the stale list
+  public setAutoRerender(enabled: boolean): void {
+    this.sendMessage('set-auto-rerender', { enabled });
+  }
+
+  // Opt in or out of full-resolution tiled export; answered with export-settings
+  public setTiledExport(enabled: boolean): void {
+    this.sendMessage('set-tiled-export', { enabled });
+  }
+
+  // Inspector: every layer of the document that carries a recipe
+  public async scanRecipeNodes(): Promise<RecipeNodeInfo[]> {
+    const response = await this.sendMessageAndWait('scan-recipes', {}, 'recipe-nodes', APP_CONFIG.INSPECTOR.SCAN_TIMEOUT);
+    return response.nodes;
+  }
+
+  // Inspector: select layers on canvas (switches to the page of the first one)
+  public async selectNodes(nodeIds: string[]): Promise<number> {
+    const response = await this.sendMessageAndWait('select-nodes', { nodeIds }, 'nodes-selected');
+    return response.selected;
+  }
+
+  // Inspector: revert layers by id instead of the canvas selection
+  public async revertNodes(nodeIds: string[]): Promise<{ reverted: number; withoutRecipe: number }> {
+    return this.sendMessageAndWait('revert-nodes', { nodeIds }, 'revert-result', APP_CONFIG.INSPECTOR.SCAN_TIMEOUT);
   }
 
   // Save custom preset
-  public async saveCustomPreset(preset: any): Promise<any> {
+  public async saveCustomPreset(preset: CustomPreset): Promise<{ preset: CustomPreset }> {
     return this.sendMessageAndWait(
       'save-custom-preset',
       { preset },
@@ -166,7 +364,7 @@ export class FigmaService {
   }
 
   // Delete custom preset
-  public async deleteCustomPreset(presetId: string): Promise<any> {
+  public async deleteCustomPreset(presetId: string): Promise<{ presetId: string }> {
     return this.sendMessageAndWait(
       'delete-custom-preset',
       { presetId },
@@ -174,8 +372,17 @@ export class FigmaService {
     );
   }
 
+  // Team presets live in the document, so everyone opening the file sees them
+  public async saveFilePreset(preset: FilePreset): Promise<{ preset: FilePreset }> {
+    return this.sendMessageAndWait('save-file-preset', { preset }, 'file-preset-saved');
+  }
+
+  public async deleteFilePreset(presetId: string): Promise<{ presetId: string }> {
+    return this.sendMessageAndWait('delete-file-preset', { presetId }, 'file-preset-deleted');
+  }
+
   // Get storage usage
-  public async getStorageUsage(): Promise<any> {
+  public async getStorageUsage(): Promise<{ usage: StorageUsage }> {
     return this.sendMessageAndWait(
       'get-storage-usage',
       {},
@@ -187,11 +394,36 @@ export class FigmaService {
    * Private methods
    */
   
+  private postToPlugin(pluginMessage: { type: UiMessageType; [key: string]: unknown }): void {
+    try {
+      parent.postMessage({ pluginMessage }, FIGMA_ORIGIN);
+    } catch (error) {
+      console.error('Failed to send message to Figma:', error);
+      throw new Error(`Failed to send ${pluginMessage.type} message to Figma`);
+    }
+  }
+
   private setupMessageListener(): void {
     window.addEventListener('message', (event: MessageEvent) => {
       const raw = (event as any)?.data;
-      const message = (raw && (raw.pluginMessage ? raw.pluginMessage : raw)) as FigmaMessage | undefined;
-      if (!message || !message.type) return;
+      const incoming = raw && (raw.pluginMessage ? raw.pluginMessage : raw);
+      if (!incoming || !incoming.type) return;
+
+      let message: FigmaMessage;
+      try {
+        message = parsePluginMessage(incoming);
+      } catch (error) {
+        if (error instanceof ProtocolError) {
+          console.warn('⚠️ Ignoring message from Figma:', error.message, incoming);
+          return;
+        }
+        throw error;
+      }
+
+      // Replies to sendMessageAndWait
+      if (message.requestId) {
+        this.pendingRequests.get(message.requestId)?.(message);
+      }
 
       // Call registered handlers
       const handlers = this.messageHandlers.get(message.type);
@@ -227,6 +459,7 @@ export class FigmaService {
    */
   public destroy(): void {
     this.messageHandlers.clear();
+    this.pendingRequests.clear();
     this.isInitialized = false;
   }
 }
@@ -1,13 +1,17 @@
 // Re-export existing types first
 export type { Preset } from '../presets';
 export type { CustomPreset } from '../customPresets';
+export type { FilePreset } from '../filePresets';
 export type { SliderInstance } from '../components/Controls';
 export type { DisplacementEngine } from '../engine';
+export type { DisplacementChannel } from '../engine/types';
 
 // Import types for internal use
 import type { Preset } from '../presets';
-import type { MapSource } from '../engine/types';
+import type { DisplacementChannel, MapSource } from '../engine/types';
 import type { CustomPreset } from '../customPresets';
+import type { DisplaceRecipe } from '../../shared/recipe';
+import type { PluginMessageOf, PluginMessageType, PluginToUiMessage } from '../../shared/protocol';
 
 // Core application types
 export interface AppState {
@@ -18,6 +22,12 @@ export interface AppState {
 // Effect-related types
 export interface EffectSettings {
   strength: number;
+  /** Horizontal / vertical strength, both set when unlinked; absent = both follow `strength` */
+  strengthX?: number;
+  strengthY?: number;
+  /** Map channels driving horizontal / vertical displacement; absent = R and G */
+  xChannel?: DisplacementChannel;
+  yChannel?: DisplacementChannel;
   scale: number;
   soft: number;
   chromatic: number;
@@ -36,17 +46,131 @@ export interface AppEvents {
   'image:cleared': void;
 }
 
-// Figma message types
-export interface FigmaMessage {
-  type: string;
-  [key: string]: any;
+// Figma message types (the full protocol lives in shared/protocol.ts)
+export type FigmaMessage = PluginToUiMessage;
+
+export interface StorageUsage {
+  used: number;
+  total: number;
+  percentage: number;
+  /** Custom presets by the space deleting them would free, largest first */
+  presets?: PresetStorageSize[];
+}
+
+export interface PresetStorageSize {
+  id: string;
+  name: string;
+  bytes: number;
+  /** Maps shared with other presets (not freed by deleting this one) */
+  sharedBytes: number;
+}
+
+// Batch apply: a node from a multi-node selection
+export interface BatchTarget {
+  id: string;
+  name: string;
+}
+
+export interface BatchSkippedNode extends BatchTarget {
+  reason: string;
+}
+
+export interface BatchFailure {
+  name: string;
+  reason: string;
+}
+
+/**
+ * How a rendered result lands in Figma: replace the source fill, duplicate the
+ * node, or stack the result as an extra image fill above the source
+ */
+export type ApplyMode = 'modify' | 'copy' | 'fill';
+
+/** Figma blend mode (e.g. 'MULTIPLY') and 0–1 opacity of the fill added in 'fill' mode */
+export interface FillLayerOptions {
+  blendMode: string;
+  opacity: number;
+}
+
+/**
+ * Where "apply as copy" puts successive copies of a node: in a row to the right,
+ * in a column below, in a grid of `columns` columns, or inside an auto-layout frame
+ */
+export interface CopyLayout {
+  direction: 'right' | 'below' | 'grid' | 'frame';
+  columns: number;
+}
+
+/** Visible part of a CROP image fill, in normalized (0–1) image coordinates */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Source image of a batch target as sent by the backend */
+export interface NodeImage {
+  imageBytes: Uint8Array;
+  fillIndex: number | null;
+  crop: ImageCrop | null;
+  /** Node is a tiled result frame; re-renders go out in tiles again */
+  tiled: boolean;
+}
+
+export interface SelectionUpdatedMessage {
+  imageBytes: Uint8Array;
+  recipe?: DisplaceRecipe | null;
+  sourceKind?: 'fill' | 'raster';
+  /** Processed image fill; null for rasterized layers */
+  fillIndex?: number | null;
+  crop?: ImageCrop | null;
+  imageFills?: ImageFillOption[];
+  batchCount?: number;
+  /** Image-filled descendants of a selected container (frame, group, component...) */
+  nestedImages?: NestedImageOption[];
+  nestedTarget?: NestedTarget;
+}
+
+export type ImageUseScope = 'page' | 'document';
+
+/** Layer showing the image scanned for by "Apply to all uses of this image" */
+export interface ImageUse {
+  nodeId: string;
+  name: string;
+  pageName: string;
+}
+
+/** Layer listed by the inspector: a node carrying a Displace recipe */
+export interface RecipeNodeInfo {
+  nodeId: string;
+  name: string;
+  pageId: string;
+  pageName: string;
+  recipe: DisplaceRecipe;
+  /** Blend mode and opacity of the added fill layer; null when the result replaced the image */
+  fillLayer: FillLayerOptions | null;
+  thumbnail: Uint8Array | null;
+}
+
+/** Descendant node id, 'all' for every nested image, or null for the selected layer itself */
+export type NestedTarget = string | 'all' | null;
+
+/** Entry of the nested image picker */
+export interface NestedImageOption {
+  nodeId: string;
+  name: string;
+  /** Small PNG of the layer; null when the export failed */
+  thumbnail: Uint8Array | null;
+}
+
+/** Entry of the fill picker for nodes with several image fills */
+export interface ImageFillOption {
+  /** Index of the paint in the node's `fills` array */
+  index: number;
+  label: string;
 }
 
-export interface FigmaMessageHandlers {
-  'selection-updated': (msg: { imageBytes: Uint8Array }) => void;
-  'selection-cleared': (msg: void) => void;
-  'unsupported-node': (msg: { reason: string }) => void;
-  'apply-success': (msg: void) => void;
-  'apply-error': (msg: { error: string }) => void;
-  'custom-presets-loaded': (msg: { presets: CustomPreset[] }) => void;
-} 
\ No newline at end of file
+export type FigmaMessageHandlers = {
+  [K in PluginMessageType]: (msg: PluginMessageOf<K>) => void;
+};
@@ -1,4 +1,5 @@
 import { APP_CONFIG } from '../config/constants';
+import type { ImageCrop } from '../types';
 
 export function bytesToDataUrl(bytes: Uint8Array, mimeType: string = 'image/png'): string {
   // Convert to binary string in manageable chunks to avoid stack overflow
@@ -12,6 +13,64 @@ export function bytesToDataUrl(bytes: Uint8Array, mimeType: string = 'image/png'
   return `data:${mimeType};base64,${base64}`;
 }
 
+function loadImageFromBytes(bytes: Uint8Array): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = bytesToDataUrl(bytes);
+  });
+}
+
+async function canvasToBytes(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to create blob from canvas');
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Pixel rectangle of a normalized crop inside an image of the given size */
+function cropToPixels(crop: ImageCrop, width: number, height: number) {
+  const x = Math.round(crop.x * width);
+  const y = Math.round(crop.y * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height)))
+  };
+}
+
+/**
+ * Cuts the visible part of a CROP image fill out of the full image, so the effect is
+ * previewed and rendered in the same space the user sees on canvas.
+ */
+export async function cropImageBytes(bytes: Uint8Array, crop: ImageCrop): Promise<Uint8Array> {
+  const img = await loadImageFromBytes(bytes);
+  const rect = cropToPixels(crop, img.width, img.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  canvas.getContext('2d')!.drawImage(img, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvasToBytes(canvas);
+}
+
+/**
+ * Pastes a rendered crop back into the full source image. The result keeps the source
+ * dimensions, so the fill's imageTransform still frames the same region after apply.
+ */
+export async function compositeCropResult(fullBytes: Uint8Array, cropBytes: Uint8Array, crop: ImageCrop): Promise<Uint8Array> {
+  const [full, rendered] = await Promise.all([loadImageFromBytes(fullBytes), loadImageFromBytes(cropBytes)]);
+  const rect = cropToPixels(crop, full.width, full.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = full.width;
+  canvas.height = full.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(full, 0, 0);
+  ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.drawImage(rendered, rect.x, rect.y, rect.width, rect.height);
+  return canvasToBytes(canvas);
+}
+
 /**
  * Resizes image to fit within preview bounds while maintaining aspect ratio
  * Used for Live Preview optimization - returns resized dataURL
@@ -1,4 +1,4 @@
-import type { Preset } from '../presets';
+import type { Preset, PresetLayer } from '../presets';
 import type { MapSource, MultiLayerMapSource } from '../engine/types';
 
 /**
@@ -10,21 +10,33 @@ export function buildMapSourceFromPreset(
   preset: Preset,
   _presetImageCache?: Record<string, HTMLImageElement>
 ): MapSource {
+  return buildMapSourceFromLayers(preset.layers);
+}
+
+/**
+ * Builds a MultiLayerMapSource from a bare layer stack (e.g. one restored from a node recipe).
+ */
+export function buildMapSourceFromLayers(presetLayers: PresetLayer[]): MultiLayerMapSource {
   // Convert layers[] to MultiLayerMapSource
-  const layers = preset.layers.map(l => ({
+  const layers = presetLayers.map(l => ({
     src: l.src,
     tiling: l.tiling,
     // IMPORTANT: do NOT inject preset.defaultScale here. Leave undefined so the global engineState.scalePct applies.
     scale: typeof l.scale === 'number' ? l.scale : undefined,
+    xChannel: l.xChannel,
+    yChannel: l.yChannel,
     scaleMode: l.scaleMode,
     opacity: typeof l.opacity === 'number' ? l.opacity : 1,
     blendMode: l.blendMode || 'source-over',
     alignX: (l as any).alignX,
     alignY: (l as any).alignY,
     offsetX: (l as any).offsetX,
-    offsetY: (l as any).offsetY
+    offsetY: (l as any).offsetY,
+    rotation: l.rotation,
+    flipX: l.flipX,
+    flipY: l.flipY,
+    skewX: l.skewX,
+    skewY: l.skewY
   }));
   return { layers } as MultiLayerMapSource;
 }
-
-
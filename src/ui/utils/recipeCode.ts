@@ -0,0 +1,89 @@
+/**
+ * Recipe Codes
+ *
+ * Compact, URL-safe text form of an effect state for pasting into chats and specs:
+ * `dsp1.` followed by the deflated JSON of the recipe in base64url. Library maps travel
+ * as their `resource://` references; custom maps are inlined as data URLs, so a code
+ * for a custom preset is as large as its map.
+ */
+
+import { checkPresetLayer, isEffectSettings, isPresetLayer } from '../../shared/recipe';
+import type { RecipePayload } from '../../shared/recipe';
+
+export const RECIPE_CODE_PREFIX = 'dsp1.';
+
+export class RecipeCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeCodeError';
+  }
+}
+
+export async function encodeRecipeCode(recipe: RecipePayload): Promise<string> {
+  const json = JSON.stringify({ p: recipe.presetId, l: recipe.layers, s: recipe.settings });
+  const deflated = await pipeThrough(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${RECIPE_CODE_PREFIX}${toBase64Url(deflated)}`;
+}
+
+/** Throws a RecipeCodeError saying what is wrong with the code */
+export async function decodeRecipeCode(code: string): Promise<RecipePayload> {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(RECIPE_CODE_PREFIX)) {
+    throw new RecipeCodeError(`Not a Displace recipe code (codes start with "${RECIPE_CODE_PREFIX}")`);
+  }
+  const body = trimmed.slice(RECIPE_CODE_PREFIX.length);
+  if (!/^[A-Za-z0-9_-]+$/.test(body)) {
+    throw new RecipeCodeError('The code contains characters that do not belong to it; was it cut or reformatted?');
+  }
+
+  let parsed: unknown;
+  try {
+    const inflated = await pipeThrough(fromBase64Url(body), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(inflated));
+  } catch {
+    throw new RecipeCodeError('The code is incomplete or damaged');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new RecipeCodeError('The code does not describe an effect');
+  }
+  const data = parsed as Record<string, unknown>;
+  const presetId = data.p;
+  if (presetId !== null && typeof presetId !== 'string') {
+    throw new RecipeCodeError('The code has an invalid preset reference');
+  }
+  const layers = data.l;
+  if (!Array.isArray(layers)) {
+    throw new RecipeCodeError('The code has invalid map layers');
+  }
+  if (!layers.every(isPresetLayer)) {
+    const problem = layers.map(checkPresetLayer).find((p) => p !== null);
+    throw new RecipeCodeError(`The code has invalid map layers: ${problem}`);
+  }
+  if (!isEffectSettings(data.s)) {
+    throw new RecipeCodeError('The code is missing slider values');
+  }
+  return { presetId, layers, settings: data.s };
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}